@@ -1,14 +1,61 @@
-import { useState, useCallback } from 'react';
-import { Color } from './types';
-import { createColor } from './utils/colorUtils';
-import { LIGHT_SOURCES } from './utils/lightingUtils';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Color, ColorwayState, PatternSettings } from './types';
+import { DEFAULT_CHIP_SIZE, createColor } from './utils/colorUtils';
+import { LightingModel, getAvailableLights } from './utils/lightingUtils';
+import { LightDefinition } from './utils/illuminantUtils';
+import { NORMAL_VISION, VisionSimulation } from './utils/colorVisionUtils';
+import { computeColorCoverage, generateRandomSeed, generateSeededPoints, scaleToCellCount } from './utils/voronoiUtils';
+import { DEFAULT_PATTERN } from './utils/patternUtils';
 import { useURLState } from './hooks/useURLState';
+import { useHistory } from './hooks/useHistory';
+import { useCompareVariants } from './hooks/useCompareVariants';
+import { useCustomLights } from './hooks/useCustomLights';
 import Sidebar from './components/Sidebar';
 import VoronoiVisualization from './components/VoronoiVisualization';
+import CompareView from './components/CompareView';
+import LightingGrid from './components/LightingGrid';
+import TilePreview from './components/TilePreview';
+import WallMockup from './components/WallMockup';
 import ThemeToggle from './components/ThemeToggle';
+import HistoryControls from './components/HistoryControls';
 
 const MAX_COLORS = 10;
 
+type ViewMode = 'single' | 'compare' | 'lighting' | 'tiles' | 'wall';
+
+const VIEW_MODES: { id: ViewMode; label: string; title: string; description: string }[] = [
+  {
+    id: 'single',
+    label: 'Preview',
+    title: 'Plastic Sheet Preview',
+    description: 'This visualization shows how your selected colors will appear when mixed as plastic chips in a manufactured sheet.',
+  },
+  {
+    id: 'compare',
+    label: 'Compare variants',
+    title: 'Compare Variants',
+    description: 'Try palette and density changes side by side without touching the main design.',
+  },
+  {
+    id: 'lighting',
+    label: 'Lighting grid',
+    title: 'Lighting Comparison',
+    description: 'The same sheet under every light source. Click a tile to use that lighting.',
+  },
+  {
+    id: 'tiles',
+    label: 'Tile preview',
+    title: 'Tile Preview',
+    description: 'The sheet repeated three by three, to check how panels join across a large area.',
+  },
+  {
+    id: 'wall',
+    label: 'Wall mockup',
+    title: 'Wall Mockup',
+    description: 'An installed wall of sheets under the selected lighting, each sheet from a different batch of the same colorway.',
+  },
+];
+
 // Default demo colors to show the functionality
 interface DefaultColor {
   hex: string;
@@ -19,46 +66,82 @@ const DEFAULT_COLORS: DefaultColor[] = [
 ];
 
 function App() {
-  const [colors, setColors] = useState<Color[]>(() => {
-    return DEFAULT_COLORS.map(({ hex, density }) => createColor(hex, density));
-  });
+  // Palette and view settings live in one undoable state
+  const {
+    state: colorway,
+    set: setColorway,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistory<ColorwayState>(() => ({
+    colors: DEFAULT_COLORS.map(({ hex, density }) => createColor(hex, density)),
+    scale: 1.0,
+    lightingId: 'natural',
+    seed: generateRandomSeed(),
+    pattern: DEFAULT_PATTERN,
+  }));
+  const { colors, scale, lightingId: selectedLightId, seed, pattern } = colorway;
   
-  const [scale, setScale] = useState<number>(1.0);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [temporaryColorId, setTemporaryColorId] = useState<string | null>(null);
   const [temporaryColorHex, setTemporaryColorHex] = useState<string | null>(null);
-  const [selectedLightId, setSelectedLightId] = useState<string>('natural');
   const [isolatedColorId, setIsolatedColorId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [lightingModel, setLightingModel] = useState<LightingModel>('adaptation');
+  const [visionSimulation, setVisionSimulation] = useState<VisionSimulation>(NORMAL_VISION);
+  const compare = useCompareVariants();
+  const { customLights, addCustomLight, removeCustomLight } = useCustomLights();
   
-  // URL state management
+  const setColors = useCallback((updater: (prev: Color[]) => Color[]) => {
+    setColorway(prev => ({ ...prev, colors: updater(prev.colors) }));
+  }, [setColorway]);
+  
+  const setSelectedLightId = useCallback((lightingId: string) => {
+    setColorway(prev => prev.lightingId === lightingId ? prev : { ...prev, lightingId });
+  }, [setColorway]);
+  
+  // URL state management (restored state is navigation, not an undoable edit)
   const handleColorsChange = useCallback((newColors: Color[]) => {
-    setColors(newColors);
-  }, []);
+    setColorway(prev => ({ ...prev, colors: newColors }), { record: false });
+  }, [setColorway]);
   
   const handleScaleChangeFromURL = useCallback((newScale: number) => {
-    setScale(newScale);
-  }, []);
+    setColorway(prev => ({ ...prev, scale: newScale }), { record: false });
+  }, [setColorway]);
   
   const handleLightingChangeFromURL = useCallback((newLightId: string) => {
-    setSelectedLightId(newLightId);
-  }, []);
+    setColorway(prev => ({ ...prev, lightingId: newLightId }), { record: false });
+  }, [setColorway]);
+  
+  const handleSeedChangeFromURL = useCallback((newSeed: number) => {
+    setColorway(prev => ({ ...prev, seed: newSeed }), { record: false });
+  }, [setColorway]);
+  
+  const handlePatternChangeFromURL = useCallback((newPattern: PatternSettings) => {
+    setColorway(prev => ({ ...prev, pattern: newPattern }), { record: false });
+  }, [setColorway]);
   
   useURLState({
     colors,
     scale,
     lightingId: selectedLightId,
+    seed,
+    pattern,
     onColorsChange: handleColorsChange,
     onScaleChange: handleScaleChangeFromURL,
     onLightingChange: handleLightingChangeFromURL,
+    onSeedChange: handleSeedChangeFromURL,
+    onPatternChange: handlePatternChangeFromURL,
   });
 
-  const handleColorAdd = (hex: string) => {
+  const handleColorAdd = (hex: string, code?: string) => {
     if (colors.length >= MAX_COLORS) {
       return;
     }
     
     try {
-      const newColor = createColor(hex);
+      const newColor = createColor(hex, 1, code);
       setColors(prev => [...prev, newColor]);
     } catch (error) {
       console.error('Error adding color:', error);
@@ -79,11 +162,25 @@ function App() {
     );
   };
 
-  const handleColorChange = (colorId: string, hex: string) => {
+  const handleChipSizeChange = (colorId: string, chipSize: number) => {
+    setColors(prev => 
+      prev.map(color => {
+        if (color.id !== colorId) {
+          return color;
+        }
+        // Standard chips leave the field out so files and links stay as before
+        const { chipSize: _previous, ...rest } = color;
+        return chipSize === DEFAULT_CHIP_SIZE ? rest : { ...rest, chipSize };
+      })
+    );
+  };
+
+  const handleColorChange = (colorId: string, hex: string, code?: string) => {
+    // A recolored chip no longer matches its catalog code unless a new one is given
     setColors(prev => 
       prev.map(color => 
         color.id === colorId 
-          ? { ...color, hex } 
+          ? { ...color, hex, code: code ?? (hex === color.hex ? color.code : undefined) } 
           : color
       )
     );
@@ -105,16 +202,67 @@ function App() {
   };
 
   const handleReset = () => {
-    setColors([]);
+    setColors(() => []);
     // Also clear any temporary color state and isolation
     handleTemporaryColorClose();
     setIsolatedColorId(null);
   };
 
+  const handleColorwayLoad = (state: ColorwayState) => {
+    // Loading is undoable like any other edit
+    setColorway(() => state);
+    handleTemporaryColorClose();
+    setIsolatedColorId(null);
+  };
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    // Start with one variant so there is something to compare against
+    if (mode === 'compare' && compare.variants.length === 0 && colors.length > 0) {
+      compare.addVariant(colorway);
+    }
+    setViewMode(mode);
+  };
+
   const handleColorIsolate = (colorId: string | null) => {
     setIsolatedColorId(colorId);
   };
 
+  const handlePatternChange = (newPattern: PatternSettings) => {
+    // Dragging a pattern slider changes one setting many times; keep it to one undo step
+    const changed = (Object.keys(newPattern) as (keyof PatternSettings)[]).filter(key => newPattern[key] !== pattern[key]);
+    setColorway(prev => ({ ...prev, pattern: newPattern }), changed.length === 1 ? { coalesceKey: `pattern.${changed[0]}` } : {});
+  };
+
+  const handleRegenerate = () => {
+    // Generate a new seed to create a completely new pattern
+    setColorway(prev => ({ ...prev, seed: generateRandomSeed() }));
+  };
+  
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      
+      // Leave text fields to their native undo behavior
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+      
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   // Create colors with temporary override for visualization
   const visualizationColors = colors.map(color => 
     color.id === temporaryColorId && temporaryColorHex
@@ -122,22 +270,56 @@ function App() {
       : color
   );
   
-  // Find the selected light source
-  const selectedLightSource = selectedLightId === 'natural' 
-    ? undefined 
-    : LIGHT_SOURCES.find(light => light.id === selectedLightId);
+  // Share of chips and of surface each color actually gets in the current sheet.
+  // The preview is square, so a unit square gives the same diagram at any canvas size.
+  // Points only change with the layout, so palette edits reuse them.
+  const coveragePoints = useMemo(
+    () => generateSeededPoints(scaleToCellCount(scale), 1, 1, seed, pattern),
+    [scale, seed, pattern]
+  );
+  const coverage = useMemo(
+    () => computeColorCoverage(coveragePoints, colors, 1, 1, seed, pattern),
+    [coveragePoints, colors, seed, pattern]
+  );
+  
+  const activeViewMode = VIEW_MODES.find(mode => mode.id === viewMode) ?? VIEW_MODES[0];
+  
+  // Built-in and custom lights; natural light has no entry since it applies no transformation
+  const availableLights = useMemo(
+    () => getAvailableLights(customLights, selectedLightId),
+    [customLights, selectedLightId]
+  );
+  const selectedLightSource = availableLights.find(light => light.id === selectedLightId);
+  
+  // Jump to the lighting grid with the light where a problem shows up
+  const handleShowLight = (lightId: string) => {
+    setSelectedLightId(lightId);
+    setViewMode('lighting');
+  };
+  
+  const handleCustomLightAdd = (definition: LightDefinition, name: string) => {
+    const light = addCustomLight(definition, name);
+    setSelectedLightId(light.id);
+  };
   
   const handleScaleChange = useCallback((newScale: number) => {
-    setScale(newScale);
+    // A slider drag becomes a single undo step
+    setColorway(prev => ({ ...prev, scale: newScale }), { coalesceKey: 'scale' });
     setIsGenerating(true);
     // Clear the generating state after a short delay
     setTimeout(() => setIsGenerating(false), 200);
-  }, []);
+  }, [setColorway]);
 
   return (
     <div className="flex flex-row h-screen bg-neutral-50 dark:bg-neutral-900">
-      {/* Theme toggle in upper right */}
-      <div className="absolute top-4 right-4 z-50">
+      {/* History controls and theme toggle in upper right */}
+      <div className="absolute top-4 right-4 z-50 flex items-center space-x-2">
+        <HistoryControls
+          onUndo={undo}
+          onRedo={redo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+        />
         <ThemeToggle />
       </div>
       
@@ -146,6 +328,7 @@ function App() {
         onColorAdd={handleColorAdd}
         onColorRemove={handleColorRemove}
         onDensityChange={handleDensityChange}
+        onChipSizeChange={handleChipSizeChange}
         onColorChange={handleColorChange}
         onTemporaryColorChange={handleTemporaryColorChange}
         onTemporaryColorClose={handleTemporaryColorClose}
@@ -156,34 +339,136 @@ function App() {
         maxColors={MAX_COLORS}
         scale={scale}
         onScaleChange={handleScaleChange}
+        pattern={pattern}
+        onPatternChange={handlePatternChange}
+        coverage={coverage}
         selectedLightId={selectedLightId}
         onLightChange={setSelectedLightId}
+        selectedLightSource={selectedLightSource}
+        lights={availableLights}
+        onShowLight={handleShowLight}
+        customLights={customLights}
+        onAddCustomLight={handleCustomLightAdd}
+        onRemoveCustomLight={removeCustomLight}
+        lightingModel={lightingModel}
+        onLightingModelChange={setLightingModel}
+        visionSimulation={visionSimulation}
+        onVisionSimulationChange={setVisionSimulation}
+        seed={seed}
+        onColorwayLoad={handleColorwayLoad}
         isolatedColorId={isolatedColorId}
         onColorIsolate={handleColorIsolate}
         isGenerating={isGenerating}
       />
       
       <main className="flex-1 p-4 lg:p-8 overflow-auto flex flex-col">
-        <div className="max-w-4xl mx-auto flex-1 flex flex-col">
+        <div className={`${viewMode === 'single' ? 'max-w-4xl' : 'max-w-6xl'} w-full mx-auto flex-1 flex flex-col`}>
           <div className="mb-6">
             <h2 className="text-2xl lg:text-3xl font-bold text-neutral-900 dark:text-white mb-2">
-              Plastic Sheet Preview
+              {activeViewMode.title}
             </h2>
             <p className="text-neutral-600 dark:text-neutral-300 text-sm lg:text-base">
-              This visualization shows how your selected colors will appear when mixed as plastic chips in a manufactured sheet.
+              {activeViewMode.description}
             </p>
+            <div className="mt-3 inline-flex rounded-md bg-neutral-200 dark:bg-neutral-700 p-1" role="group" aria-label="View mode">
+              {VIEW_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => handleViewModeChange(mode.id)}
+                  aria-pressed={viewMode === mode.id}
+                  className={`px-3 py-1.5 rounded text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-neutral-400 ${
+                    viewMode === mode.id
+                      ? 'bg-white dark:bg-neutral-500 text-neutral-900 dark:text-white shadow-sm'
+                      : 'text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
           </div>
           
-          <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-sm p-4 lg:p-6 flex-1">
-            <VoronoiVisualization
+          {viewMode === 'compare' && (
+            <CompareView
+              main={colorway}
+              mainColors={visualizationColors}
+              isolatedColorId={isolatedColorId}
+              onMainRegenerate={handleRegenerate}
+              variants={compare.variants}
+              shareSeed={compare.shareSeed}
+              shareLighting={compare.shareLighting}
+              onShareSeedChange={compare.setShareSeed}
+              onShareLightingChange={compare.setShareLighting}
+              onAddVariant={() => compare.addVariant(colorway)}
+              onUpdateVariant={compare.updateVariant}
+              onRemoveVariant={compare.removeVariant}
+              onPromote={handleColorwayLoad}
+              lights={availableLights}
+              lightingModel={lightingModel}
+              visionSimulation={visionSimulation}
+              maxColors={MAX_COLORS}
+            />
+          )}
+          
+          {viewMode === 'lighting' && (
+            <LightingGrid
               colors={visualizationColors}
-              width={600}
-              height={600}
               scale={scale}
+              seed={seed}
+              pattern={pattern}
+              lights={availableLights}
+              lightingModel={lightingModel}
+              visionSimulation={visionSimulation}
+              selectedLightId={selectedLightId}
+              onLightChange={setSelectedLightId}
+              isolatedColorId={isolatedColorId}
+            />
+          )}
+          
+          {viewMode === 'tiles' && (
+            <TilePreview
+              colors={visualizationColors}
+              scale={scale}
+              seed={seed}
+              pattern={pattern}
               lightSource={selectedLightSource}
+              lightingModel={lightingModel}
+              visionSimulation={visionSimulation}
               isolatedColorId={isolatedColorId}
+              onTileableChange={(tileable) => handlePatternChange({ ...pattern, tileable })}
             />
-          </div>
+          )}
+          
+          {viewMode === 'wall' && (
+            <WallMockup
+              colors={visualizationColors}
+              scale={scale}
+              seed={seed}
+              pattern={pattern}
+              lightSource={selectedLightSource}
+              lightingModel={lightingModel}
+              visionSimulation={visionSimulation}
+              isolatedColorId={isolatedColorId}
+            />
+          )}
+          
+          {viewMode === 'single' && (
+            <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-sm p-4 lg:p-6 flex-1">
+              <VoronoiVisualization
+                colors={visualizationColors}
+                width={600}
+                height={600}
+                scale={scale}
+                seed={seed}
+                pattern={pattern}
+                onRegenerate={handleRegenerate}
+                lightSource={selectedLightSource}
+                lightingModel={lightingModel}
+                visionSimulation={visionSimulation}
+                isolatedColorId={isolatedColorId}
+              />
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { CatalogEntry } from '../types';
+import { findNearestCatalogEntries } from '../utils/catalogUtils';
+import { DELTA_E_THRESHOLDS } from '../utils/colorDifferenceUtils';
+
+interface CatalogMatchesProps {
+  hex: string;
+  onSnap: (entry: CatalogEntry) => void;
+  count?: number;
+  disabled?: boolean;
+}
+
+const getDeltaELabel = (deltaE: number): string => {
+  if (deltaE < DELTA_E_THRESHOLDS.imperceptible) return 'Exact';
+  if (deltaE < DELTA_E_THRESHOLDS.close) return 'Close';
+  if (deltaE < DELTA_E_THRESHOLDS.distinct) return 'Similar';
+  return 'Distant';
+};
+
+const CatalogMatches: React.FC<CatalogMatchesProps> = ({ hex, onSnap, count = 3, disabled = false }) => {
+  const matches = useMemo(() => findNearestCatalogEntries(hex, count), [hex, count]);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="text-xs font-medium text-neutral-700 dark:text-neutral-300 mb-1">
+        Closest catalog chips
+      </div>
+      <div className="space-y-1">
+        {matches.map(({ entry, deltaE }) => (
+          <div key={entry.code} className="flex items-center gap-2 text-xs">
+            <div
+              className="w-4 h-4 rounded border border-neutral-300 dark:border-neutral-600 flex-shrink-0"
+              style={{ backgroundColor: entry.hex }}
+            />
+            <span className="font-mono text-neutral-900 dark:text-neutral-100">{entry.code}</span>
+            <span
+              className="text-neutral-500 dark:text-neutral-400"
+              title="CIEDE2000 color difference"
+            >
+              ΔE {deltaE.toFixed(1)} · {getDeltaELabel(deltaE)}
+            </span>
+            <button
+              type="button"
+              onClick={() => onSnap(entry)}
+              disabled={disabled}
+              className="ml-auto px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-500 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors"
+              title={`Use ${entry.code} (${entry.hex})`}
+            >
+              Snap
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogMatches;
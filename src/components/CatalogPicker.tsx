@@ -0,0 +1,80 @@
+import React, { useState, useMemo } from 'react';
+import { CatalogEntry } from '../types';
+import { PANTONE_PLASTICS, searchCatalog } from '../utils/catalogUtils';
+import { getContrastTextColor } from '../utils/colorUtils';
+
+interface CatalogPickerProps {
+  onColorAdd: (hex: string, code?: string) => void;
+  disabled?: boolean;
+}
+
+const CatalogPicker: React.FC<CatalogPickerProps> = ({ onColorAdd, disabled = false }) => {
+  const [query, setQuery] = useState('');
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const results = useMemo(() => searchCatalog(query), [query]);
+
+  const handleSelect = (entry: CatalogEntry) => {
+    if (disabled) return;
+    onColorAdd(entry.hex, entry.code);
+  };
+
+  return (
+    <div className="mb-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between text-sm font-medium text-neutral-600 dark:text-neutral-300 mb-1"
+        aria-expanded={isExpanded}
+      >
+        <span>Add from Pantone Plastics ({PANTONE_PLASTICS.length})</span>
+        <svg
+          className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search code or hex, e.g. Q722"
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-neutral-300 dark:border-neutral-500 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 disabled:bg-neutral-200 dark:disabled:bg-neutral-700 disabled:cursor-not-allowed bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100 placeholder-neutral-500 dark:placeholder-neutral-400"
+          />
+
+          {results.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              No catalog colors match "{query}"
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2 max-h-48 overflow-y-auto pr-1">
+              {results.map((entry) => (
+                <button
+                  key={entry.code}
+                  type="button"
+                  onClick={() => handleSelect(entry)}
+                  disabled={disabled}
+                  className="px-2 py-2 rounded-md border border-neutral-300 dark:border-neutral-600 text-xs font-mono hover:opacity-80 focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
+                  style={{ backgroundColor: entry.hex, color: getContrastTextColor(entry.hex) }}
+                  title={`Add ${entry.code} (${entry.hex})`}
+                >
+                  {entry.code}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogPicker;
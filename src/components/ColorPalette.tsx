@@ -1,13 +1,16 @@
 import React, { useState, useRef } from 'react';
-import { Color } from '../types';
-import { calculateTotalDensity, calculateColorProbability, normalizeDensity, getContrastTextColor } from '../utils/colorUtils';
+import { Color, CatalogEntry, PatternSettings } from '../types';
+import { CHIP_SIZE_GRADES, calculateTotalDensity, calculateColorProbability, formatChipSize, getChipDrawColors, getChipSize, normalizeDensity, getContrastTextColor } from '../utils/colorUtils';
+import { ColorCoverage } from '../utils/voronoiUtils';
+import { getChipCoverage, showsMatrix } from '../utils/chipShapeUtils';
 import CompactColorPicker from './CompactColorPicker';
 
 interface ColorPaletteProps {
   colors: Color[];
   onColorRemove: (colorId: string) => void;
   onDensityChange: (colorId: string, density: number) => void;
-  onColorChange?: (colorId: string, hex: string) => void;
+  onChipSizeChange?: (colorId: string, chipSize: number) => void;
+  onColorChange?: (colorId: string, hex: string, code?: string) => void;
   onTemporaryColorChange?: (colorId: string, hex: string) => void;
   onTemporaryColorClose?: () => void;
   onTemporaryColorSave?: (colorId: string, hex: string) => void;
@@ -15,19 +18,27 @@ interface ColorPaletteProps {
   temporaryColorHex?: string | null;
   isolatedColorId?: string | null;
   onColorIsolate?: (colorId: string | null) => void;
+  coverage?: Record<string, ColorCoverage>;  // Realized share of the current sheet per color id
+  pattern?: PatternSettings;                  // Adds the matrix as a share of the sheet when it shows
 }
 
+// Percentage points of surface a color can be off target before it is flagged
+const COVERAGE_DEVIATION_WARNING = 2;
+
 const ColorPalette: React.FC<ColorPaletteProps> = ({ 
   colors, 
   onColorRemove, 
   onDensityChange, 
+  onChipSizeChange,
   onColorChange,
   onTemporaryColorChange,
   onTemporaryColorClose,
   temporaryColorId,
   temporaryColorHex,
   isolatedColorId,
-  onColorIsolate
+  onColorIsolate,
+  coverage,
+  pattern
 }) => {
   const [editingDensity, setEditingDensity] = useState<string | null>(null);
   const [tempDensityValues, setTempDensityValues] = useState<Record<string, string>>({});
@@ -36,6 +47,14 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
   const colorButtonRefs = useRef<Record<string, HTMLButtonElement | null>>({});
   
   const totalDensity = calculateTotalDensity(colors);
+  // Share of chips each color is drawn for, which exact quotas hit exactly
+  const chipColors = getChipDrawColors(colors);
+  const totalChipDensity = calculateTotalDensity(chipColors);
+  
+  // Shares are of the whole sheet; chips split what the matrix leaves them
+  const matrix = pattern && showsMatrix(pattern) ? pattern : null;
+  const chipCoverage = matrix ? getChipCoverage(matrix) : 1;
+  const chipArea = coverage ? Object.values(coverage).reduce((sum, entry) => sum + entry.area, 0) : 0;
 
   const handleDensityEdit = (colorId: string, currentDensity: number) => {
     setEditingDensity(colorId);
@@ -100,6 +119,19 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
     setAnchorElement(null);
   };
 
+  const handleCatalogSnap = (entry: CatalogEntry) => {
+    // Apply the catalog chip directly instead of saving the in-progress edit
+    if (editingColorId && onColorChange) {
+      onColorChange(editingColorId, entry.hex, entry.code);
+    }
+    
+    if (onTemporaryColorClose) {
+      onTemporaryColorClose();
+    }
+    setEditingColorId(null);
+    setAnchorElement(null);
+  };
+
   const handleColorIsolate = (colorId: string) => {
     if (onColorIsolate) {
       // Toggle isolation: if already isolated, clear it; otherwise isolate this color
@@ -134,9 +166,15 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
       </div>
       
       <div className="grid grid-cols-1 gap-3">
-        {colors.map((color) => {
-          const probability = calculateColorProbability(color, totalDensity, colors.length);
+        {colors.map((color, index) => {
+          const probability = calculateColorProbability(color, totalDensity, colors.length) * chipCoverage;
+          const chipTarget = calculateColorProbability(chipColors[index], totalChipDensity, colors.length);
+          const realized = coverage?.[color.id];
+          const areaShare = realized && chipArea > 0 ? realized.area / chipArea * chipCoverage : 0;
+          const deviation = realized ? (areaShare - probability) * 100 : 0;
+          const isUnrepresentative = Math.abs(deviation) >= COVERAGE_DEVIATION_WARNING;
           const isEditing = editingDensity === color.id;
+          const chipSize = getChipSize(color);
           const isIsolated = isolatedColorId === color.id;
           const isOtherIsolated = isolatedColorId && isolatedColorId !== color.id;
           
@@ -180,6 +218,15 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
                       <path d="M20.71 5.63l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-3.12 3.12-1.93-1.91-1.41 1.41 1.42 1.42L3 16.25V21h4.75l8.92-8.92 1.42 1.42 1.41-1.41-1.91-1.93 3.12-3.12c.39-.39.39-1.02 0-1.41zM6.92 19H5v-1.92l8.06-8.06 1.92 1.92L6.92 19z"/>
                     </svg>
                   </button>
+                  {color.code && displayColor === color.hex && (
+                    <span
+                      className="font-mono text-xs opacity-80"
+                      style={{ color: textColor }}
+                      title="Pantone Plastics code"
+                    >
+                      {color.code}
+                    </span>
+                  )}
                 </div>
                 
                 <div className="flex items-center space-x-2">
@@ -276,16 +323,63 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
                         {color.density}
                       </button>
                     )}
+                    {onChipSizeChange && (
+                      <select
+                        value={chipSize}
+                        onChange={(e) => onChipSizeChange(color.id, parseFloat(e.target.value))}
+                        className="px-1 py-0.5 text-xs border border-neutral-400 dark:border-neutral-500 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white/90 dark:bg-neutral-800/90"
+                        style={{ color: '#374151' }}
+                        title="Chip size relative to the sheet scale"
+                        aria-label={`Chip size for ${color.hex}`}
+                      >
+                        {/* Sizes from files or links can fall between the grades */}
+                        {!CHIP_SIZE_GRADES.some(grade => grade.size === chipSize) && (
+                          <option value={chipSize}>{formatChipSize(chipSize)}</option>
+                        )}
+                        {CHIP_SIZE_GRADES.map(grade => (
+                          <option key={grade.size} value={grade.size}>{grade.label}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
-                  
-                  <span className="text-xs font-medium" style={{ color: textColor }}>
-                    {(probability * 100).toFixed(1)}%
+                </div>
+                
+                {/* Chip bar: target share of chips with the realized share marked */}
+                <div className="flex items-center space-x-2 text-xs" style={{ color: textColor }}>
+                  <span className="w-10 opacity-80">chips</span>
+                  <div className="relative flex-1 bg-black/20 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full transition-all duration-300"
+                      style={{
+                        width: `${Math.min(chipTarget * 100, 100)}%`,
+                        backgroundColor: textColor,
+                        opacity: 0.6
+                      }}
+                    />
+                    {/* Realized share marker */}
+                    {realized && (
+                      <div
+                        className="absolute -top-0.5 h-3 w-0.5 rounded-full transition-all duration-300"
+                        style={{
+                          left: `calc(${Math.min(realized.cells * 100, 100)}% - 1px)`,
+                          backgroundColor: textColor
+                        }}
+                      />
+                    )}
+                  </div>
+                  <span
+                    className="w-28 text-right whitespace-nowrap"
+                    title={realized ? 'Target share of chips · share of chips in this sheet' : 'Target share of chips'}
+                  >
+                    {(chipTarget * 100).toFixed(1)}%
+                    {realized && <span className="opacity-80"> · {(realized.cells * 100).toFixed(1)}%</span>}
                   </span>
                 </div>
                 
-                {/* Visual density bar */}
-                <div className="flex items-center space-x-2">
-                  <div className="flex-1 bg-black/20 rounded-full h-2">
+                {/* Area bar: target share of the surface with the covered area marked */}
+                <div className="flex items-center space-x-2 text-xs" style={{ color: textColor }}>
+                  <span className="w-10 opacity-80">area</span>
+                  <div className="relative flex-1 bg-black/20 rounded-full h-2">
                     <div
                       className="h-2 rounded-full transition-all duration-300"
                       style={{
@@ -294,12 +388,57 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
                         opacity: 0.6
                       }}
                     />
+                    {realized && (
+                      <div
+                        className="absolute -top-0.5 h-3 w-0.5 rounded-full transition-all duration-300"
+                        style={{
+                          left: `calc(${Math.min(areaShare * 100, 100)}% - 1px)`,
+                          backgroundColor: textColor
+                        }}
+                      />
+                    )}
                   </div>
+                  <span
+                    className="w-28 text-right whitespace-nowrap"
+                    title={realized ? 'Target share of the sheet surface · area covered in this sheet' : 'Target share of the sheet surface'}
+                  >
+                    {(probability * 100).toFixed(1)}%
+                    {realized && (
+                      <span className={isUnrepresentative ? 'ml-1 px-1 rounded bg-yellow-300 text-neutral-900' : 'opacity-80'}>
+                        {!isUnrepresentative && ' · '}{(areaShare * 100).toFixed(1)}% ({deviation >= 0 ? '+' : '−'}{Math.abs(deviation).toFixed(1)})
+                      </span>
+                    )}
+                  </span>
                 </div>
               </div>
             </div>
           );
         })}
+
+        {matrix && (
+          <div
+            className="p-3 border border-dashed border-neutral-300 dark:border-neutral-600 rounded-lg"
+            style={{ backgroundColor: matrix.matrixColor }}
+          >
+            <div
+              className="flex items-center justify-between text-xs"
+              style={{ color: getContrastTextColor(matrix.matrixColor) }}
+            >
+              <span className="font-mono text-sm font-medium">
+                Matrix {matrix.matrixColor}
+                {matrix.matrixOpacity < 1 && (
+                  <span className="ml-2 text-xs font-normal opacity-80">{Math.round(matrix.matrixOpacity * 100)}% opaque</span>
+                )}
+              </span>
+              <span className="font-medium">
+                {((1 - chipCoverage) * 100).toFixed(1)}%
+                {coverage && (
+                  <span className="font-normal opacity-80"> · area {(Math.max(0, 1 - chipArea) * 100).toFixed(1)}%</span>
+                )}
+              </span>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Compact Color Picker */}
@@ -309,6 +448,7 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
           isOpen={!!editingColorId}
           anchorElement={anchorElement}
           onColorChange={handleTemporaryColorChange}
+          onCatalogSnap={onColorChange ? handleCatalogSnap : undefined}
           onClose={handleColorPickerClose}
         />
       )}
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
+import { CatalogEntry } from '../types';
 import { isValidHexColor } from '../utils/colorUtils';
+import CatalogMatches from './CatalogMatches';
 
 interface ColorPickerProps {
-  onColorAdd: (hex: string) => void;
+  onColorAdd: (hex: string, code?: string) => void;
   disabled?: boolean;
 }
 
@@ -30,6 +32,12 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ onColorAdd, disabled = false
     setError('');
   };
 
+  const handleCatalogSnap = (entry: CatalogEntry) => {
+    onColorAdd(entry.hex, entry.code);
+    setHexInput('');
+    setError('');
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setHexInput(value);
@@ -39,6 +47,9 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ onColorAdd, disabled = false
     }
   };
 
+  const formattedInput = hexInput.startsWith('#') ? hexInput : `#${hexInput}`;
+  const showMatches = !disabled && isValidHexColor(formattedInput);
+
   return (
     <div className="mb-4">
       <form onSubmit={handleSubmit} className="space-y-2">
@@ -61,6 +72,10 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ onColorAdd, disabled = false
           <p className="text-red-500 dark:text-red-400 text-sm">{error}</p>
         )}
         
+        {showMatches && (
+          <CatalogMatches hex={formattedInput.toUpperCase()} onSnap={handleCatalogSnap} />
+        )}
+        
         <button
           type="submit"
           disabled={disabled}
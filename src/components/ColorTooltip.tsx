@@ -1,6 +1,6 @@
 import React from 'react';
 import { Color } from '../types';
-import { calculateColorProbability, calculateTotalDensity } from '../utils/colorUtils';
+import { DEFAULT_CHIP_SIZE, calculateColorProbability, calculateTotalDensity, formatChipSize, getChipSize } from '../utils/colorUtils';
 
 interface ColorTooltipProps {
   color: Color;
@@ -39,9 +39,13 @@ const ColorTooltip: React.FC<ColorTooltipProps> = ({
           style={{ backgroundColor: color.hex }}
         />
         <div>
-          <div className="font-mono font-medium">{color.hex}</div>
+          <div className="font-mono font-medium">
+            {color.hex}
+            {color.code && <span className="ml-2 opacity-75">{color.code}</span>}
+          </div>
           <div className="text-xs opacity-75">
             Density: {color.density} • {(probability * 100).toFixed(1)}%
+            {getChipSize(color) !== DEFAULT_CHIP_SIZE && ` • ${formatChipSize(getChipSize(color))}`}
           </div>
         </div>
       </div>
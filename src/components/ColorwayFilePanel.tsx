@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ColorwayState } from '../types';
+import { downloadBlob } from '../utils/exportUtils';
+import {
+  COLORWAY_FILE_EXTENSION,
+  ColorwayFileMetadata,
+  parseColorwayFile,
+  serializeColorway,
+} from '../utils/colorwayFileUtils';
+
+interface ColorwayFilePanelProps {
+  currentState: ColorwayState;
+  onImport: (state: ColorwayState) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100 placeholder-neutral-500 dark:placeholder-neutral-400';
+
+const buttonClassName = 'flex-1 px-4 py-2 rounded-md bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 text-neutral-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-neutral-400 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm';
+
+const ColorwayFilePanel: React.FC<ColorwayFilePanelProps> = ({ currentState, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [name, setName] = useState('');
+  // Kept from the last imported file so its creation date survives a re-export
+  const [importedMetadata, setImportedMetadata] = useState<ColorwayFileMetadata>({});
+  // Import gives every color a fresh id, so the colorway is still the imported one,
+  // however edited, while it keeps any of them
+  const [importedColorIds, setImportedColorIds] = useState<Set<string>>(new Set());
+
+  // A library load, reset, promoted variant or undo past the import replaces the
+  // colorway, and the file's name and dates no longer belong to it
+  useEffect(() => {
+    if (importedColorIds.size === 0 || currentState.colors.some(color => importedColorIds.has(color.id))) return;
+
+    setImportedColorIds(new Set());
+    setImportedMetadata({});
+    setName('');
+    setMessage('');
+  }, [currentState.colors, importedColorIds]);
+
+  const handleExport = () => {
+    const json = serializeColorway(currentState, {
+      ...importedMetadata,
+      name: name.trim() || undefined,
+    });
+    const blob = new Blob([json], { type: 'application/json' });
+    downloadBlob(blob, `colorway-${currentState.seed}${COLORWAY_FILE_EXTENSION}`);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    setErrors([]);
+    setMessage('');
+
+    try {
+      const result = parseColorwayFile(await file.text());
+
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+
+      onImport(result.state);
+      setImportedColorIds(new Set(result.state.colors.map(color => color.id)));
+      setImportedMetadata(result.metadata);
+      setName(result.metadata.name ?? '');
+      const label = result.metadata.name ? `"${result.metadata.name}"` : file.name;
+      setMessage(result.migratedFrom
+        ? `Imported ${label} (upgraded from ${result.migratedFrom})`
+        : `Imported ${label}`);
+    } catch (error) {
+      console.error('Error reading colorway file:', error);
+      setErrors([`Could not read ${file.name}`]);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="mb-3">
+        <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+          Colorway File
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Save or open a <span className="font-mono">{COLORWAY_FILE_EXTENSION}</span> document
+        </p>
+      </div>
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name (optional)"
+        aria-label="Colorway name"
+        className={`${inputClassName} mb-2`}
+      />
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={currentState.colors.length === 0}
+          className={buttonClassName}
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={buttonClassName}
+        >
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${COLORWAY_FILE_EXTENSION},.json,application/json,text/plain`}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+
+      {message && (
+        <p className="text-green-600 dark:text-green-400 text-xs mt-2">{message}</p>
+      )}
+
+      {errors.length > 0 && (
+        <div className="text-red-500 dark:text-red-400 text-xs mt-2">
+          <p className="font-medium">Could not import this file:</p>
+          <ul className="list-disc pl-4 space-y-0.5 mt-1">
+            {errors.map((error, index) => (
+              <li key={index} className="break-words">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColorwayFilePanel;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Color } from '../types';
+import { Color, CatalogEntry } from '../types';
 import { 
   hexToHsb, 
   hsbToHex,
@@ -9,12 +9,14 @@ import {
   formatHexColor
 } from '../utils/colorUtils';
 import ColorPicker2D from './ColorPicker2D';
+import CatalogMatches from './CatalogMatches';
 
 interface CompactColorPickerProps {
   color: Color;
   isOpen: boolean;
   anchorElement: HTMLElement | null;
   onColorChange: (newHex: string) => void;
+  onCatalogSnap?: (entry: CatalogEntry) => void;
   onClose: () => void;
 }
 
@@ -28,6 +30,7 @@ const CompactColorPicker: React.FC<CompactColorPickerProps> = ({
   isOpen, 
   anchorElement,
   onColorChange, 
+  onCatalogSnap,
   onClose 
 }) => {
   const [hexInput, setHexInput] = useState(color.hex);
@@ -401,6 +404,16 @@ const CompactColorPicker: React.FC<CompactColorPickerProps> = ({
         )}
       </div>
 
+      {/* Nearest catalog chips for the color being edited */}
+      {onCatalogSnap && (
+        <div className="mt-3">
+          <CatalogMatches
+            hex={rgbToHex(rgbValues.r, rgbValues.g, rgbValues.b)}
+            onSnap={onCatalogSnap}
+          />
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="text-xs text-neutral-500 dark:text-neutral-400 mt-3">
         Click outside or press Escape to close
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { Color, ColorwayState } from '../types';
+import { CompareVariant, MAX_COMPARE_VARIANTS, resolveVariantState } from '../utils/compareUtils';
+import { LightSource, LightingModel, findLightSource } from '../utils/lightingUtils';
+import { VisionSimulation } from '../utils/colorVisionUtils';
+import { generateRandomSeed } from '../utils/voronoiUtils';
+import VoronoiVisualization from './VoronoiVisualization';
+import VariantEditor from './VariantEditor';
+import RecipeDiffTable from './RecipeDiffTable';
+
+interface CompareViewProps {
+  main: ColorwayState;
+  mainColors: Color[];
+  isolatedColorId: string | null;
+  onMainRegenerate: () => void;
+  variants: CompareVariant[];
+  shareSeed: boolean;
+  shareLighting: boolean;
+  onShareSeedChange: (share: boolean) => void;
+  onShareLightingChange: (share: boolean) => void;
+  onAddVariant: () => void;
+  onUpdateVariant: (id: string, updater: (prev: ColorwayState) => ColorwayState) => void;
+  onRemoveVariant: (id: string) => void;
+  onPromote: (state: ColorwayState) => void;
+  lights: LightSource[];
+  lightingModel: LightingModel;
+  visionSimulation?: VisionSimulation;
+  maxColors: number;
+}
+
+const panelClassName = 'bg-white dark:bg-neutral-800 rounded-lg shadow-sm p-4 flex flex-col';
+const actionClassName = 'text-xs px-2 py-0.5 rounded bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 text-neutral-700 dark:text-white transition-colors';
+
+const CompareView: React.FC<CompareViewProps> = ({
+  main,
+  mainColors,
+  isolatedColorId,
+  onMainRegenerate,
+  variants,
+  shareSeed,
+  shareLighting,
+  onShareSeedChange,
+  onShareLightingChange,
+  onAddVariant,
+  onUpdateVariant,
+  onRemoveVariant,
+  onPromote,
+  lights,
+  lightingModel,
+  visionSimulation,
+  maxColors,
+}) => {
+  const resolvedVariants = useMemo(() => variants.map(variant => ({
+    ...variant,
+    state: resolveVariantState(variant.state, main, shareSeed, shareLighting),
+  })), [variants, main, shareSeed, shareLighting]);
+
+  const diffPanels = useMemo(() => [
+    { name: 'Main', colors: main.colors, pattern: main.pattern },
+    ...resolvedVariants.map(variant => ({ name: variant.name, colors: variant.state.colors, pattern: variant.state.pattern })),
+  ], [main.colors, main.pattern, resolvedVariants]);
+
+  // Prefer the shared list so light objects keep their identity between renders
+  const resolveLight = (lightId: string): LightSource | undefined => {
+    return lights.find(light => light.id === lightId) ?? findLightSource(lightId);
+  };
+
+  const handleVariantRegenerate = (variantId: string) => {
+    if (shareSeed) {
+      onMainRegenerate();
+    } else {
+      onUpdateVariant(variantId, prev => ({ ...prev, seed: generateRandomSeed() }));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-700 dark:text-neutral-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={shareSeed} onChange={(e) => onShareSeedChange(e.target.checked)} />
+          Share pattern seed
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={shareLighting} onChange={(e) => onShareLightingChange(e.target.checked)} />
+          Share lighting
+        </label>
+        <button
+          onClick={onAddVariant}
+          disabled={variants.length >= MAX_COMPARE_VARIANTS}
+          className="ml-auto px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors"
+          title="Add a copy of the main design"
+        >
+          Add variant
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <div className={panelClassName}>
+          <div className="mb-2">
+            <h3 className="font-medium text-neutral-900 dark:text-neutral-100">Main</h3>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">Edit in the sidebar</p>
+          </div>
+          <div className="h-80">
+            <VoronoiVisualization
+              colors={mainColors}
+              width={300}
+              height={300}
+              scale={main.scale}
+              seed={main.seed}
+              pattern={main.pattern}
+              onRegenerate={onMainRegenerate}
+              lightSource={resolveLight(main.lightingId)}
+              lightingModel={lightingModel}
+              visionSimulation={visionSimulation}
+              isolatedColorId={isolatedColorId}
+            />
+          </div>
+        </div>
+
+        {resolvedVariants.map((variant) => (
+          <div key={variant.id} className={panelClassName}>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <h3 className="font-medium text-neutral-900 dark:text-neutral-100">{variant.name}</h3>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onPromote(variant.state)}
+                  disabled={variant.state.colors.length === 0}
+                  className={`${actionClassName} disabled:opacity-50 disabled:cursor-not-allowed`}
+                  title="Replace the main design with this variant"
+                >
+                  Promote to main
+                </button>
+                <button
+                  onClick={() => onRemoveVariant(variant.id)}
+                  className={actionClassName}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+            <div className="h-80">
+              <VoronoiVisualization
+                colors={variant.state.colors}
+                width={300}
+                height={300}
+                scale={variant.state.scale}
+                seed={variant.state.seed}
+                pattern={variant.state.pattern}
+                onRegenerate={() => handleVariantRegenerate(variant.id)}
+                lightSource={resolveLight(variant.state.lightingId)}
+                lightingModel={lightingModel}
+                visionSimulation={visionSimulation}
+              />
+            </div>
+            <VariantEditor
+              state={variant.state}
+              maxColors={maxColors}
+              lights={lights}
+              showLighting={!shareLighting}
+              onChange={(updater) => onUpdateVariant(variant.id, updater)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {variants.length > 0 && (
+        <div className={panelClassName}>
+          <h3 className="font-medium text-neutral-900 dark:text-neutral-100 mb-2">Recipe differences</h3>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-2">
+            Share of the sheet per color; changes are relative to the main design
+          </p>
+          <RecipeDiffTable panels={diffPanels} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import {
+  CCT_RANGES,
+  CIE_STANDARD_ILLUMINANTS,
+  ChromaticityLocus,
+  LightDefinition,
+  createCustomLightSource,
+} from '../utils/illuminantUtils';
+import { LightSource, xyzToSrgb } from '../utils/lightingUtils';
+
+interface CustomLightFormProps {
+  onAdd: (definition: LightDefinition, name: string) => void;
+}
+
+type DefinitionMode = 'cct' | 'xy' | 'xyz' | 'standard';
+
+const DEFINITION_MODES: { id: DefinitionMode; label: string }[] = [
+  { id: 'cct', label: 'Kelvin' },
+  { id: 'xy', label: 'xy' },
+  { id: 'xyz', label: 'XYZ' },
+  { id: 'standard', label: 'CIE' },
+];
+
+const inputClassName = 'w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100';
+const labelClassName = 'block text-xs text-neutral-600 dark:text-neutral-400 mb-1';
+
+// Display color of a white point, scaled so the brightest channel is full intensity
+const getWhitePointSwatch = (light: LightSource): string => {
+  const { r, g, b } = xyzToSrgb(light.whitePoint);
+  const max = Math.max(r, g, b, 1e-6);
+  const toChannel = (value: number) => Math.round(Math.max(0, value / max) * 255);
+  return `rgb(${toChannel(r)}, ${toChannel(g)}, ${toChannel(b)})`;
+};
+
+const CustomLightForm: React.FC<CustomLightFormProps> = ({ onAdd }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<DefinitionMode>('cct');
+  const [name, setName] = useState('');
+  const [kelvin, setKelvin] = useState('3000');
+  const [locus, setLocus] = useState<ChromaticityLocus>('planckian');
+  const [chromaticity, setChromaticity] = useState({ x: '0.3457', y: '0.3585' });
+  const [tristimulus, setTristimulus] = useState({ X: '96.42', Y: '100', Z: '82.51' });
+  const [illuminant, setIlluminant] = useState('d50');
+
+  const buildDefinition = (): LightDefinition => {
+    switch (mode) {
+      case 'cct':
+        return { kind: 'cct', kelvin: parseFloat(kelvin), locus };
+      case 'xy':
+        return { kind: 'xy', x: parseFloat(chromaticity.x), y: parseFloat(chromaticity.y) };
+      case 'xyz':
+        return {
+          kind: 'xyz',
+          whitePoint: { X: parseFloat(tristimulus.X), Y: parseFloat(tristimulus.Y), Z: parseFloat(tristimulus.Z) },
+        };
+      case 'standard':
+        return { kind: 'standard', illuminant };
+    }
+  };
+
+  // Validate on every render so the preview and error track the inputs
+  let preview: LightSource | null = null;
+  let error: string | null = null;
+  try {
+    preview = createCustomLightSource(buildDefinition(), name.trim());
+  } catch (definitionError) {
+    error = definitionError instanceof Error ? definitionError.message : 'Invalid light definition';
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview) return;
+
+    onAdd(buildDefinition(), name);
+    setName('');
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        + Add custom light
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 border border-neutral-300 dark:border-neutral-600 rounded-lg space-y-3">
+      <div className="flex rounded-md bg-neutral-200 dark:bg-neutral-700 p-0.5" role="group" aria-label="Define light by">
+        {DEFINITION_MODES.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => setMode(option.id)}
+            aria-pressed={mode === option.id}
+            className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+              mode === option.id
+                ? 'bg-white dark:bg-neutral-500 text-neutral-900 dark:text-white shadow-sm'
+                : 'text-neutral-700 dark:text-neutral-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'cct' && (
+        <div className="grid grid-cols-2 gap-2">
+          <label>
+            <span className={labelClassName}>Color temperature (K)</span>
+            <input
+              type="number"
+              min={CCT_RANGES[locus].min}
+              max={CCT_RANGES[locus].max}
+              step={100}
+              value={kelvin}
+              onChange={(e) => setKelvin(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label>
+            <span className={labelClassName}>Locus</span>
+            <select value={locus} onChange={(e) => setLocus(e.target.value as ChromaticityLocus)} className={inputClassName}>
+              <option value="planckian">Blackbody</option>
+              <option value="daylight">Daylight</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      {mode === 'xy' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['x', 'y'] as const).map((axis) => (
+            <label key={axis}>
+              <span className={labelClassName}>{axis}</span>
+              <input
+                type="number"
+                step={0.0001}
+                value={chromaticity[axis]}
+                onChange={(e) => setChromaticity(prev => ({ ...prev, [axis]: e.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {mode === 'xyz' && (
+        <div className="grid grid-cols-3 gap-2">
+          {(['X', 'Y', 'Z'] as const).map((axis) => (
+            <label key={axis}>
+              <span className={labelClassName}>{axis}</span>
+              <input
+                type="number"
+                step={0.01}
+                value={tristimulus[axis]}
+                onChange={(e) => setTristimulus(prev => ({ ...prev, [axis]: e.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {mode === 'standard' && (
+        <label className="block">
+          <span className={labelClassName}>Standard illuminant</span>
+          <select value={illuminant} onChange={(e) => setIlluminant(e.target.value)} className={inputClassName}>
+            {CIE_STANDARD_ILLUMINANTS.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name} - {entry.description}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="block">
+        <span className={labelClassName}>Name (optional)</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={preview?.name ?? 'e.g. Showroom'}
+          className={inputClassName}
+        />
+      </label>
+
+      {preview && (
+        <div className="flex items-center gap-2 text-xs text-neutral-600 dark:text-neutral-400">
+          <span
+            className="w-5 h-5 rounded border border-neutral-300 dark:border-neutral-600 flex-shrink-0"
+            style={{ backgroundColor: getWhitePointSwatch(preview) }}
+          />
+          <span>{preview.description}</span>
+        </div>
+      )}
+      {error && <p className="text-red-500 dark:text-red-400 text-xs">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!preview}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-500 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          Add light
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-3 py-1.5 bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 text-neutral-700 dark:text-white rounded-md transition-colors text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CustomLightForm;
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Color, PatternSettings } from '../types';
+import { LightSource, LightingModel } from '../utils/lightingUtils';
+import { VisionSimulation } from '../utils/colorVisionUtils';
+import { exportSheetAsPNG, exportSheetAsSVG, mmToPixels, validateExportSize } from '../utils/exportUtils';
+import { exportSpecSheetPDF } from '../utils/specSheetUtils';
+
+interface ExportPanelProps {
+  colors: Color[];
+  scale: number;
+  seed: number;
+  pattern?: PatternSettings;
+  lightSource?: LightSource;
+  lightingModel?: LightingModel;
+  visionSimulation?: VisionSimulation;
+  isolatedColorId?: string | null;
+  disabled?: boolean;
+}
+
+type SizeMode = 'physical' | 'pixels';
+
+interface SheetPreset {
+  label: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+const SHEET_PRESETS: SheetPreset[] = [
+  { label: 'Full sheet', widthMm: 1220, heightMm: 2440 },
+  { label: 'Half sheet', widthMm: 1220, heightMm: 1220 },
+  { label: 'Sample chip', widthMm: 150, heightMm: 150 },
+];
+
+const inputClassName = 'w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({
+  colors,
+  scale,
+  seed,
+  pattern,
+  lightSource,
+  lightingModel,
+  visionSimulation,
+  isolatedColorId,
+  disabled = false,
+}) => {
+  const [mode, setMode] = useState<SizeMode>('physical');
+  const [widthMm, setWidthMm] = useState(1220);
+  const [heightMm, setHeightMm] = useState(2440);
+  const [dpi, setDpi] = useState(150);
+  const [widthPx, setWidthPx] = useState(2400);
+  const [heightPx, setHeightPx] = useState(2400);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const outputWidth = mode === 'physical' ? mmToPixels(widthMm, dpi) : Math.round(widthPx);
+  const outputHeight = mode === 'physical' ? mmToPixels(heightMm, dpi) : Math.round(heightPx);
+  const sizeError = validateExportSize(outputWidth, outputHeight);
+
+  const hasContent = colors.length > 0;
+  const canExport = hasContent && !disabled && !isExporting && !sizeError;
+  // Vector output has no pixel limits, only needs a positive size
+  const canExportVector = hasContent && !disabled && !isExporting && outputWidth > 0 && outputHeight > 0;
+
+  const handleExportPNG = async () => {
+    if (!canExport) return;
+
+    setIsExporting(true);
+    setError('');
+
+    try {
+      // Let the button state paint before the (blocking) render starts
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await exportSheetAsPNG(
+        { colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId },
+        outputWidth,
+        outputHeight
+      );
+    } catch (exportError) {
+      console.error('Failed to export image:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Failed to export image');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportSVG = () => {
+    if (!canExportVector) return;
+
+    setError('');
+
+    try {
+      const sheetOptions = { colors, scale, seed, pattern, lightSource, lightingModel, isolatedColorId };
+      if (mode === 'physical') {
+        exportSheetAsSVG(sheetOptions, widthMm, heightMm, 'mm');
+      } else {
+        exportSheetAsSVG(sheetOptions, outputWidth, outputHeight, 'px');
+      }
+    } catch (exportError) {
+      console.error('Failed to export SVG:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Failed to export SVG');
+    }
+  };
+
+  const handleExportSpecSheet = async () => {
+    if (!hasContent || disabled || isExporting) return;
+
+    setIsExporting(true);
+    setError('');
+
+    try {
+      await exportSpecSheetPDF({ colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation });
+    } catch (exportError) {
+      console.error('Failed to export spec sheet:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Failed to export spec sheet');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleNumberChange = (setter: (value: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setter(parseFloat(e.target.value) || 0);
+    setError('');
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="mb-3">
+        <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+          Export Image
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Download the current pattern as a high-resolution PNG or vector SVG
+        </p>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        {(['physical', 'pixels'] as SizeMode[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`flex-1 px-3 py-1 rounded-md text-sm border transition-colors ${
+              mode === option
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 border-neutral-300 dark:border-neutral-600 hover:bg-neutral-50 dark:hover:bg-neutral-700'
+            }`}
+          >
+            {option === 'physical' ? 'Sheet size' : 'Pixels'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'physical' ? (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1">
+            {SHEET_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => {
+                  setWidthMm(preset.widthMm);
+                  setHeightMm(preset.heightMm);
+                }}
+                className="text-xs px-2 py-1 rounded bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 text-neutral-700 dark:text-white transition-colors"
+                title={`${preset.widthMm}×${preset.heightMm} mm`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-neutral-600 dark:text-neutral-300">
+              Width (mm)
+              <input type="number" min="1" value={widthMm} onChange={handleNumberChange(setWidthMm)} className={inputClassName} />
+            </label>
+            <label className="text-xs text-neutral-600 dark:text-neutral-300">
+              Height (mm)
+              <input type="number" min="1" value={heightMm} onChange={handleNumberChange(setHeightMm)} className={inputClassName} />
+            </label>
+            <label className="text-xs text-neutral-600 dark:text-neutral-300">
+              DPI
+              <input type="number" min="1" value={dpi} onChange={handleNumberChange(setDpi)} className={inputClassName} />
+            </label>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-neutral-600 dark:text-neutral-300">
+            Width (px)
+            <input type="number" min="1" value={widthPx} onChange={handleNumberChange(setWidthPx)} className={inputClassName} />
+          </label>
+          <label className="text-xs text-neutral-600 dark:text-neutral-300">
+            Height (px)
+            <input type="number" min="1" value={heightPx} onChange={handleNumberChange(setHeightPx)} className={inputClassName} />
+          </label>
+        </div>
+      )}
+
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+        Output: {outputWidth}×{outputHeight} px
+        {outputWidth !== outputHeight && ' — the preview square covers the shorter side'}
+      </p>
+
+      {(sizeError || error) && (
+        <p className="text-red-500 dark:text-red-400 text-xs mt-1">{sizeError || error}</p>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={handleExportPNG}
+          disabled={!canExport}
+          className="flex-1 px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-neutral-800 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isExporting ? 'Rendering...' : 'Export PNG'}
+        </button>
+        <button
+          onClick={handleExportSVG}
+          disabled={!canExportVector}
+          className="flex-1 px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-neutral-800 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors"
+          title="Vector artwork with one group per palette color, using the colors as specified"
+        >
+          Export SVG
+        </button>
+      </div>
+
+      <button
+        onClick={handleExportSpecSheet}
+        disabled={!hasContent || disabled || isExporting}
+        className="w-full mt-2 px-4 py-2 rounded-md bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 text-neutral-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-neutral-400 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        title="PDF with preview, recipe percentages, lighting, seed and share link"
+      >
+        Export PDF Spec Sheet
+      </button>
+
+      {!hasContent && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-500 mt-2">
+          Add colors to enable export
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+
+interface HistoryControlsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modifierLabel = isMac ? '⌘' : 'Ctrl+';
+
+const buttonClassName = 'p-2 rounded-lg bg-neutral-100 hover:bg-neutral-200 dark:bg-neutral-700 dark:hover:bg-neutral-600 text-neutral-700 dark:text-neutral-300 transition-colors focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-neutral-100 dark:disabled:hover:bg-neutral-700';
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({ onUndo, onRedo, canUndo, canRedo }) => {
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        className={buttonClassName}
+        aria-label="Undo"
+        title={`Undo (${modifierLabel}Z)`}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14L4 9m0 0l5-5M4 9h11a5 5 0 010 10h-3" />
+        </svg>
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className={buttonClassName}
+        aria-label="Redo"
+        title={`Redo (${modifierLabel}${isMac ? '⇧' : 'Shift+'}Z)`}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 14l5-5m0 0l-5-5m5 5H9a5 5 0 000 10h3" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default HistoryControls;
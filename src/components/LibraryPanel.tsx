@@ -0,0 +1,177 @@
+import React, { useState, useMemo } from 'react';
+import { ColorwayState } from '../types';
+import { useColorwayLibrary } from '../hooks/useColorwayLibrary';
+import { SavedColorway, searchLibrary } from '../utils/libraryUtils';
+
+interface LibraryPanelProps {
+  currentState: ColorwayState;
+  onLoad: (state: ColorwayState) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-neutral-300 dark:border-neutral-500 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100 placeholder-neutral-500 dark:placeholder-neutral-400';
+const actionBaseClassName = 'text-xs px-2 py-0.5 rounded bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 transition-colors';
+const actionClassName = `${actionBaseClassName} text-neutral-700 dark:text-white`;
+const deleteActionClassName = `${actionBaseClassName} text-red-600 dark:text-red-300`;
+
+const formatTimestamp = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ currentState, onLoad }) => {
+  const {
+    entries,
+    error,
+    saveEntry,
+    updateEntry,
+    renameEntry,
+    duplicateEntry,
+    deleteEntry,
+  } = useColorwayLibrary();
+  const [newName, setNewName] = useState('');
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const filteredEntries = useMemo(() => searchLibrary(entries, query), [entries, query]);
+  const canSave = currentState.colors.length > 0;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    saveEntry(newName, currentState);
+    setNewName('');
+  };
+
+  const startRename = (entry: SavedColorway) => {
+    setRenamingId(entry.id);
+    setRenameValue(entry.name);
+  };
+
+  const submitRename = () => {
+    if (renamingId) {
+      renameEntry(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (entry: SavedColorway) => {
+    if (window.confirm(`Delete "${entry.name}" from the library?`)) {
+      deleteEntry(entry.id);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="mb-3">
+        <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+          Colorway Library
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Save designs in this browser and load them later
+        </p>
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name this colorway"
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          Save
+        </button>
+      </form>
+
+      {error && (
+        <p className="text-red-500 dark:text-red-400 text-xs mb-2">{error}</p>
+      )}
+
+      {entries.length > 0 && (
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, hex or code"
+          className={`${inputClassName} mb-2`}
+        />
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">No saved colorways yet</p>
+      ) : filteredEntries.length === 0 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">No colorways match "{query}"</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {filteredEntries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex gap-3 p-2 border border-neutral-300 dark:border-neutral-600 rounded-lg"
+            >
+              <button
+                onClick={() => onLoad(entry.state)}
+                className="flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-blue-400 rounded"
+                title="Load this colorway"
+              >
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt="" className="w-14 h-14 rounded border border-neutral-300 dark:border-neutral-600" />
+                ) : (
+                  <div className="w-14 h-14 rounded bg-neutral-200 dark:bg-neutral-700" />
+                )}
+              </button>
+
+              <div className="flex-1 min-w-0">
+                {renamingId === entry.id ? (
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={submitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full px-1 py-0.5 text-sm border border-neutral-400 dark:border-neutral-500 rounded focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100"
+                    autoFocus
+                  />
+                ) : (
+                  <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate" title={entry.name}>
+                    {entry.name}
+                  </div>
+                )}
+                <div
+                  className="text-xs text-neutral-500 dark:text-neutral-400"
+                  title={`Created ${formatTimestamp(entry.createdAt)}`}
+                >
+                  {entry.state.colors.length} colors · {formatTimestamp(entry.modifiedAt)}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <button onClick={() => onLoad(entry.state)} className={actionClassName}>Load</button>
+                  <button
+                    onClick={() => updateEntry(entry.id, currentState)}
+                    disabled={!canSave}
+                    className={`${actionClassName} disabled:opacity-50 disabled:cursor-not-allowed`}
+                    title="Replace this entry with the current design"
+                  >
+                    Update
+                  </button>
+                  <button onClick={() => startRename(entry)} className={actionClassName}>Rename</button>
+                  <button onClick={() => duplicateEntry(entry.id)} className={actionClassName}>Duplicate</button>
+                  <button onClick={() => handleDelete(entry)} className={deleteActionClassName}>Delete</button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
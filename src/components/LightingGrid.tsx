@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Color, PatternSettings } from '../types';
+import { LightSource, LightingModel, applyLightingToColors } from '../utils/lightingUtils';
+import { VisionSimulation, applyVisionSimulationToColors } from '../utils/colorVisionUtils';
+import { transformMatrixColor } from '../utils/patternUtils';
+import { generateSeededPoints, renderVoronoiToCanvas, scaleToCellCount } from '../utils/voronoiUtils';
+
+interface LightingGridProps {
+  colors: Color[];
+  scale: number;
+  seed: number;
+  pattern: PatternSettings;
+  lights: LightSource[];
+  lightingModel: LightingModel;
+  visionSimulation?: VisionSimulation;
+  selectedLightId: string;
+  onLightChange: (lightId: string) => void;
+  isolatedColorId?: string | null;
+}
+
+interface LightingGridTileProps {
+  colors: Color[];
+  points: [number, number][];
+  cellCount: number;
+  seed: number;
+  pattern: PatternSettings;
+  isolatedColorId?: string | null;
+}
+
+// Every tile shares one point set; layouts are size-invariant so this matches the main preview
+const TILE_SIZE = 320;
+
+const LightingGridTile: React.FC<LightingGridTileProps> = ({ colors, points, cellCount, seed, pattern, isolatedColorId }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+    renderVoronoiToCanvas(canvas, points, colors, cellCount, seed, isolatedColorId, pattern);
+  }, [colors, points, cellCount, seed, pattern, isolatedColorId]);
+
+  return <canvas ref={canvasRef} className="w-full aspect-square rounded" />;
+};
+
+const LightingGrid: React.FC<LightingGridProps> = ({
+  colors,
+  scale,
+  seed,
+  pattern,
+  lights,
+  lightingModel,
+  visionSimulation,
+  selectedLightId,
+  onLightChange,
+  isolatedColorId,
+}) => {
+  const cellCount = scaleToCellCount(scale);
+  const points = useMemo(() => generateSeededPoints(cellCount, TILE_SIZE, TILE_SIZE, seed, pattern), [cellCount, seed, pattern]);
+
+  // Natural light shows the palette as specified, followed by every built-in and custom source
+  const gridLights = useMemo((): { id: string; name: string; description: string; source?: LightSource }[] => [
+    { id: 'natural', name: 'Natural (Daylight)', description: 'No lighting transformation - colors as specified' },
+    ...lights.map(light => ({ id: light.id, name: light.name, description: light.description, source: light })),
+  ], [lights]);
+
+  // Transformed palettes are memoized so tiles only redraw when the palette or lights change
+  const litPalettes = useMemo(() => {
+    return gridLights.map(light =>
+      applyVisionSimulationToColors(applyLightingToColors(colors, light.source, lightingModel), visionSimulation)
+    );
+  }, [colors, gridLights, lightingModel, visionSimulation]);
+
+  // Each tile's matrix resin under the same light
+  const litPatterns = useMemo(() => {
+    return gridLights.map(light =>
+      transformMatrixColor(pattern, matrix =>
+        applyVisionSimulationToColors(applyLightingToColors(matrix, light.source, lightingModel), visionSimulation)
+      )
+    );
+  }, [pattern, gridLights, lightingModel, visionSimulation]);
+
+  if (colors.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-neutral-200 dark:bg-neutral-700 rounded-lg">
+        <p className="text-neutral-600 dark:text-neutral-400">Add colors to compare lighting conditions</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+      {gridLights.map((light, index) => {
+        const isSelected = light.id === selectedLightId;
+        const temperature = light.source?.colorTemperature;
+
+        return (
+          <button
+            key={light.id}
+            onClick={() => onLightChange(light.id)}
+            title={`${light.description}. Click to use this lighting.`}
+            className={`
+              p-2 rounded-lg border-2 text-left transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400
+              ${isSelected
+                ? 'border-blue-600 bg-blue-50 dark:bg-neutral-700'
+                : 'border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 hover:border-neutral-400 dark:hover:border-neutral-500'
+              }
+            `}
+          >
+            <LightingGridTile
+              colors={litPalettes[index]}
+              points={points}
+              cellCount={cellCount}
+              seed={seed}
+              pattern={litPatterns[index]}
+              isolatedColorId={isolatedColorId}
+            />
+            <div className="mt-2 flex items-baseline justify-between gap-2">
+              <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">{light.name}</span>
+              {temperature && (
+                <span className="text-xs text-neutral-500 dark:text-neutral-400 flex-shrink-0">{temperature}K</span>
+              )}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LightingGrid;
@@ -1,15 +1,27 @@
 import React from 'react';
-import { LIGHT_SOURCES } from '../utils/lightingUtils';
+import { LIGHT_SOURCES, LightSource, LightingModel, getAvailableLights } from '../utils/lightingUtils';
+import { LightDefinition, parseLightDefinition } from '../utils/illuminantUtils';
+import CustomLightForm from './CustomLightForm';
 
 interface LightingSelectorProps {
   selectedLightId: string;
   onLightChange: (lightId: string) => void;
+  customLights: LightSource[];
+  onAddCustomLight: (definition: LightDefinition, name: string) => void;
+  onRemoveCustomLight: (lightId: string) => void;
+  lightingModel: LightingModel;
+  onLightingModelChange: (model: LightingModel) => void;
   className?: string;
 }
 
 const LightingSelector: React.FC<LightingSelectorProps> = ({ 
   selectedLightId, 
   onLightChange, 
+  customLights,
+  onAddCustomLight,
+  onRemoveCustomLight,
+  lightingModel,
+  onLightingModelChange,
   className = '' 
 }) => {
   // Add "Natural (Daylight)" option (no lighting transformation)
@@ -20,9 +32,20 @@ const LightingSelector: React.FC<LightingSelectorProps> = ({
       description: 'No lighting transformation - colors as specified',
       colorTemperature: undefined
     },
-    ...LIGHT_SOURCES
+    ...getAvailableLights(customLights, selectedLightId)
   ];
 
+  const isBuiltIn = (lightId: string) => lightId === 'natural' || LIGHT_SOURCES.some(light => light.id === lightId);
+  const isSaved = (lightId: string) => customLights.some(light => light.id === lightId);
+
+  // A light opened from a share link can be kept in this browser
+  const handleSaveSharedLight = (lightId: string) => {
+    const definition = parseLightDefinition(lightId);
+    if (definition) {
+      onAddCustomLight(definition, '');
+    }
+  };
+
   const getTemperatureDisplay = (lightSource: typeof lightOptions[0]) => {
     if (lightSource.colorTemperature) {
       return `${lightSource.colorTemperature}K`;
@@ -46,34 +69,70 @@ const LightingSelector: React.FC<LightingSelectorProps> = ({
         {lightOptions.map((light) => {
           const isSelected = selectedLightId === light.id;
           const temperature = getTemperatureDisplay(light);
+          const isCustom = !isBuiltIn(light.id);
           
           return (
-            <button
-              key={light.id}
-              onClick={() => onLightChange(light.id)}
-              className={`
-                px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 
-                flex items-center border-2 min-w-0 flex-shrink-0
-                ${isSelected
-                  ? 'bg-blue-600 text-white border-blue-600 shadow-md'
-                  : 'bg-white dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 border-neutral-300 dark:border-neutral-600 hover:border-neutral-400 dark:hover:border-neutral-500 hover:bg-neutral-50 dark:hover:bg-neutral-700'
-                }
-              `}
-              title={light.description}
-            >
-              <div className="flex flex-col items-start min-w-0">
-                <span className="truncate">{light.name}</span>
-                {temperature && (
-                  <span className={`text-xs ${isSelected ? 'text-blue-200' : 'text-neutral-500 dark:text-neutral-400'}`}>
-                    {temperature}
-                  </span>
-                )}
-              </div>
-            </button>
+            <div key={light.id} className="relative flex-shrink-0">
+              <button
+                onClick={() => onLightChange(light.id)}
+                className={`
+                  px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 
+                  flex items-center border-2 min-w-0 flex-shrink-0
+                  ${isSelected
+                    ? 'bg-blue-600 text-white border-blue-600 shadow-md'
+                    : 'bg-white dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 border-neutral-300 dark:border-neutral-600 hover:border-neutral-400 dark:hover:border-neutral-500 hover:bg-neutral-50 dark:hover:bg-neutral-700'
+                  }
+                `}
+                title={light.description}
+              >
+                <div className="flex flex-col items-start min-w-0">
+                  <span className="truncate">{light.name}</span>
+                  {temperature && (
+                    <span className={`text-xs ${isSelected ? 'text-blue-200' : 'text-neutral-500 dark:text-neutral-400'}`}>
+                      {temperature}
+                    </span>
+                  )}
+                </div>
+              </button>
+              {isCustom && (isSaved(light.id) ? (
+                <button
+                  onClick={() => onRemoveCustomLight(light.id)}
+                  className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-neutral-500 hover:bg-red-500 text-white text-xs leading-5 text-center transition-colors"
+                  aria-label={`Remove ${light.name}`}
+                  title="Remove custom light"
+                >
+                  ×
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleSaveSharedLight(light.id)}
+                  className="absolute -top-1.5 -right-1.5 px-1.5 h-5 rounded-full bg-blue-600 hover:bg-blue-500 text-white text-xs leading-5 transition-colors"
+                  title="Save this light from the share link to your custom lights"
+                >
+                  Save
+                </button>
+              ))}
+            </div>
           );
         })}
       </div>
       
+      <label className="mt-3 flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+        <input
+          type="checkbox"
+          checked={lightingModel === 'spectral'}
+          onChange={(e) => onLightingModelChange(e.target.checked ? 'spectral' : 'adaptation')}
+          className="mt-0.5"
+        />
+        <span>
+          Spectral rendering
+          <span className="block text-xs text-neutral-500 dark:text-neutral-400">
+            Integrates chip reflectance curves against each light's spectrum, so narrow-band lights render physically
+          </span>
+        </span>
+      </label>
+      
+      <CustomLightForm onAdd={onAddCustomLight} />
     </div>
   );
 };
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { Color } from '../types';
+import { LightSource, LightingModel } from '../utils/lightingUtils';
+import { DEFAULT_METAMERISM_THRESHOLD, findMetamericPairs } from '../utils/metamerismUtils';
+
+interface MetamerismPanelProps {
+  colors: Color[];
+  lights: LightSource[];
+  lightingModel: LightingModel;
+  onShowLight: (lightId: string) => void;
+}
+
+const swatchClassName = 'w-4 h-4 rounded border border-neutral-300 dark:border-neutral-600 flex-shrink-0';
+
+const getColorLabel = (color: Color): string => color.code ?? color.hex;
+
+const MetamerismPanel: React.FC<MetamerismPanelProps> = ({ colors, lights, lightingModel, onShowLight }) => {
+  const [threshold, setThreshold] = useState(DEFAULT_METAMERISM_THRESHOLD);
+  const [thresholdInput, setThresholdInput] = useState(DEFAULT_METAMERISM_THRESHOLD.toString());
+
+  const warnings = useMemo(
+    () => findMetamericPairs(colors, lights, threshold, lightingModel),
+    [colors, lights, threshold, lightingModel]
+  );
+
+  const handleThresholdChange = (value: string) => {
+    // Keep what was typed, so the field can be cleared or hold a partial number
+    setThresholdInput(value);
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      setThreshold(parsed);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-3">
+        <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+          Metamerism Check
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Chips that are distinct in daylight but merge under another light
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 mb-3 text-sm text-neutral-700 dark:text-neutral-300">
+        Warn below ΔE
+        <input
+          type="number"
+          min={0.5}
+          max={20}
+          step={0.5}
+          value={thresholdInput}
+          onChange={(e) => handleThresholdChange(e.target.value)}
+          onBlur={() => setThresholdInput(threshold.toString())}
+          className="w-20 px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100"
+          title="CIEDE2000 color difference"
+        />
+      </label>
+
+      {colors.length < 2 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">Add at least two colors to check</p>
+      ) : warnings.length === 0 ? (
+        <p className="text-sm text-green-700 dark:text-green-400">All chips stay distinct under every light</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {warnings.map((warning) => (
+            <li
+              key={`${warning.light.id}-${warning.colorA.id}-${warning.colorB.id}`}
+              className="p-2 border border-yellow-400 dark:border-yellow-600 rounded-lg text-xs"
+            >
+              <div className="flex items-center gap-1">
+                <span className={swatchClassName} style={{ backgroundColor: warning.colorA.hex }} />
+                <span className={swatchClassName} style={{ backgroundColor: warning.colorB.hex }} />
+                <span className="mx-1 text-neutral-500 dark:text-neutral-400">→</span>
+                <span className={swatchClassName} style={{ backgroundColor: warning.litHexA }} />
+                <span className={swatchClassName} style={{ backgroundColor: warning.litHexB }} />
+                <button
+                  onClick={() => onShowLight(warning.light.id)}
+                  className="ml-auto px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-500 transition-colors"
+                  title={`Show the lighting grid with ${warning.light.name} selected`}
+                >
+                  View
+                </button>
+              </div>
+              <div className="mt-1 text-neutral-700 dark:text-neutral-300">
+                <span className="font-mono">{getColorLabel(warning.colorA)}</span> and{' '}
+                <span className="font-mono">{getColorLabel(warning.colorB)}</span> under {warning.light.name}
+              </div>
+              <div className="text-neutral-500 dark:text-neutral-400">
+                ΔE {warning.daylightDeltaE.toFixed(1)} in daylight, {warning.litDeltaE.toFixed(1)} under this light
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MetamerismPanel;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { ChipShape, ClusterKernel, PatternSettings, PointDistribution } from '../types';
+import { ASSIGNMENT_MODES, CHIP_SHAPES, CLUSTER_KERNELS, NumericPatternSetting, PATTERN_RANGES, POINT_DISTRIBUTIONS, usesFlowAngle } from '../utils/patternUtils';
+import { showsMatrix } from '../utils/chipShapeUtils';
+
+interface PatternControlsProps {
+  pattern: PatternSettings;
+  onPatternChange: (pattern: PatternSettings) => void;
+  disabled?: boolean;
+}
+
+const PatternControls: React.FC<PatternControlsProps> = ({ pattern, onPatternChange, disabled = false }) => {
+  const selectedAssignment = ASSIGNMENT_MODES.find(mode => mode.id === pattern.assignment) ?? ASSIGNMENT_MODES[0];
+  const selectedDistribution = POINT_DISTRIBUTIONS.find(distribution => distribution.id === pattern.distribution) ?? POINT_DISTRIBUTIONS[0];
+  const selectedShape = CHIP_SHAPES.find(shape => shape.id === pattern.shape) ?? CHIP_SHAPES[0];
+
+  const renderSlider = (setting: NumericPatternSetting, label: string, format: (value: number) => string) => {
+    const { min, max, step } = PATTERN_RANGES[setting];
+    return (
+      <label className="block mt-3">
+        <span className="flex justify-between text-sm text-neutral-700 dark:text-neutral-300 mb-1">
+          {label}
+          <span>{format(pattern[setting])}</span>
+        </span>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={pattern[setting]}
+          onChange={(e) => onPatternChange({ ...pattern, [setting]: parseFloat(e.target.value) })}
+          disabled={disabled}
+          className="w-full"
+        />
+      </label>
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="mb-3">
+        <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+          Pattern
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          How chips are colored across the sheet
+        </p>
+      </div>
+
+      <div className="flex rounded-md bg-neutral-200 dark:bg-neutral-700 p-0.5" role="group" aria-label="Color assignment">
+        {ASSIGNMENT_MODES.map((mode) => (
+          <button
+            key={mode.id}
+            onClick={() => onPatternChange({ ...pattern, assignment: mode.id })}
+            disabled={disabled}
+            aria-pressed={pattern.assignment === mode.id}
+            className={`flex-1 px-2 py-1 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              pattern.assignment === mode.id
+                ? 'bg-white dark:bg-neutral-500 text-neutral-900 dark:text-white shadow-sm'
+                : 'text-neutral-700 dark:text-neutral-300'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">{selectedAssignment.description}</p>
+
+      <label className="block mt-4">
+        <span className="block text-sm text-neutral-700 dark:text-neutral-300 mb-1">Chip layout</span>
+        <select
+          value={pattern.distribution}
+          onChange={(e) => onPatternChange({ ...pattern, distribution: e.target.value as PointDistribution })}
+          disabled={disabled}
+          className="w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100 disabled:opacity-50"
+        >
+          {POINT_DISTRIBUTIONS.map((distribution) => (
+            <option key={distribution.id} value={distribution.id}>{distribution.label}</option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">{selectedDistribution.description}</p>
+
+      {pattern.distribution === 'poisson' && renderSlider('spacing', 'Minimum spacing', value => `${Math.round(value * 100)}%`)}
+
+      {pattern.distribution === 'lloyd' && renderSlider('relaxation', 'Relaxation steps', value => value.toString())}
+
+      {pattern.distribution === 'clustered' && (
+        <>
+          <label className="block mt-3">
+            <span className="block text-sm text-neutral-700 dark:text-neutral-300 mb-1">Cluster shape</span>
+            <select
+              value={pattern.clusterKernel}
+              onChange={(e) => onPatternChange({ ...pattern, clusterKernel: e.target.value as ClusterKernel })}
+              disabled={disabled}
+              className="w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100 disabled:opacity-50"
+            >
+              {CLUSTER_KERNELS.map((kernel) => (
+                <option key={kernel.id} value={kernel.id}>{kernel.label}</option>
+              ))}
+            </select>
+          </label>
+          {renderSlider('clusterSize', 'Chips per cluster', value => value.toString())}
+          {renderSlider('clusterSpread', 'Cluster spread', value => `${Math.round(value * 100)}%`)}
+        </>
+      )}
+
+      <label className="block mt-4">
+        <span className="block text-sm text-neutral-700 dark:text-neutral-300 mb-1">Chip shape</span>
+        <select
+          value={pattern.shape}
+          onChange={(e) => onPatternChange({ ...pattern, shape: e.target.value as ChipShape })}
+          disabled={disabled}
+          className="w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100 disabled:opacity-50"
+        >
+          {CHIP_SHAPES.map((shape) => (
+            <option key={shape.id} value={shape.id}>{shape.label}</option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">{selectedShape.description}</p>
+
+      {renderSlider('flowStretch', 'Flow stretch', value => value > 1 ? `${value}×` : 'None')}
+
+      {usesFlowAngle(pattern) && renderSlider('flowAngle', 'Flow direction', value => `${value}°`)}
+
+      {renderSlider('coverage', 'Chip coverage', value => `${Math.round(value * 100)}%`)}
+
+      {showsMatrix(pattern) && (
+        <>
+          <label className="flex items-center justify-between mt-3 text-sm text-neutral-700 dark:text-neutral-300">
+            Matrix color
+            <span className="flex items-center gap-2">
+              <span className="font-mono text-xs">{pattern.matrixColor}</span>
+              <input
+                type="color"
+                value={pattern.matrixColor}
+                onChange={(e) => onPatternChange({ ...pattern, matrixColor: e.target.value.toUpperCase() })}
+                disabled={disabled}
+                className="w-8 h-8 border border-neutral-300 dark:border-neutral-500 rounded cursor-pointer disabled:opacity-50"
+              />
+            </span>
+          </label>
+          {renderSlider('matrixOpacity', 'Matrix opacity', value => `${Math.round(value * 100)}%`)}
+        </>
+      )}
+
+      <label className="mt-4 flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+        <input
+          type="checkbox"
+          checked={pattern.tileable}
+          onChange={(e) => onPatternChange({ ...pattern, tileable: e.target.checked })}
+          disabled={disabled}
+          className="mt-0.5"
+        />
+        <span>
+          Seamless tiles
+          <span className="block text-xs text-neutral-500 dark:text-neutral-400">
+            Chips wrap around the edges, so copies of the sheet join without a seam
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default PatternControls;
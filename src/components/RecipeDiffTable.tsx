@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { Color, PatternSettings } from '../types';
+import { diffRecipes } from '../utils/compareUtils';
+
+interface RecipeDiffTableProps {
+  panels: { name: string; colors: Color[]; pattern: PatternSettings }[];
+}
+
+// Differences below this many percentage points are shown as unchanged
+const DIFF_EPSILON = 0.05;
+
+const formatDelta = (delta: number): string => {
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+};
+
+const RecipeDiffTable: React.FC<RecipeDiffTableProps> = ({ panels }) => {
+  const rows = useMemo(() => diffRecipes(panels), [panels]);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-neutral-300 dark:border-neutral-600 text-left text-neutral-600 dark:text-neutral-400">
+            <th className="py-2 pr-4 font-medium">Color</th>
+            {panels.map((panel, index) => (
+              <th key={index} className="py-2 pr-4 font-medium text-right">{panel.name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const baseShare = row.shares[0] ?? 0;
+
+            return (
+              <tr key={row.key} className="border-b border-neutral-200 dark:border-neutral-700">
+                <td className="py-1.5 pr-4">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="w-4 h-4 rounded border border-neutral-300 dark:border-neutral-600 flex-shrink-0"
+                      style={{ backgroundColor: row.hex }}
+                    />
+                    <span className="font-mono text-xs text-neutral-800 dark:text-neutral-200">
+                      {row.label ?? row.code ?? row.hex}
+                    </span>
+                  </div>
+                </td>
+                {row.shares.map((share, index) => {
+                  // Each variant is compared against the main design in the first column
+                  const delta = (share ?? 0) - baseShare;
+                  const showDelta = index > 0 && Math.abs(delta) >= DIFF_EPSILON;
+
+                  return (
+                    <td key={index} className="py-1.5 pr-4 text-right tabular-nums text-neutral-800 dark:text-neutral-200">
+                      {share === null ? (
+                        <span className="text-neutral-400 dark:text-neutral-500">—</span>
+                      ) : (
+                        `${share.toFixed(1)}%`
+                      )}
+                      {showDelta && (
+                        <span className={`ml-1 text-xs ${delta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {formatDelta(delta)}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RecipeDiffTable;
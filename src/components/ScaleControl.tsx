@@ -1,4 +1,5 @@
 import React from 'react';
+import { scaleToCellCount } from '../utils/voronoiUtils';
 
 interface ScaleControlProps {
   scale: number;
@@ -13,18 +14,6 @@ const ScaleControl: React.FC<ScaleControlProps> = ({ scale, onScaleChange, disab
     onScaleChange(newScale);
   };
 
-  const getCellCount = (scale: number) => {
-    // Map scale 0.1-4.0 to cell count 100-10000
-    // Linear interpolation: cellCount = 100 + (scale - 0.1) * (10000 - 100) / (4.0 - 0.1)
-    const minCells = 100;
-    const maxCells = 10000;
-    const minScale = 0.1;
-    const maxScale = 4.0;
-    
-    const cellCount = minCells + (scale - minScale) * (maxCells - minCells) / (maxScale - minScale);
-    return Math.round(cellCount);
-  };
-
   return (
     <div className="mb-6">
       <div className="mb-3">
@@ -37,7 +26,7 @@ const ScaleControl: React.FC<ScaleControlProps> = ({ scale, onScaleChange, disab
           )}
         </div>
         <div className="text-sm text-neutral-600 dark:text-neutral-300">
-          {scale.toFixed(1)}x ({getCellCount(scale)} cells)
+          {scale.toFixed(1)}x ({scaleToCellCount(scale)} cells)
         </div>
       </div>
       
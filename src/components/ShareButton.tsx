@@ -1,15 +1,17 @@
 import React, { useState } from 'react';
-import { Color } from '../types';
+import { Color, PatternSettings } from '../types';
 import { generateShareableURL } from '../utils/urlUtils';
 
 interface ShareButtonProps {
   colors: Color[];
   scale: number;
   lightingId: string;
+  seed: number;
+  pattern: PatternSettings;
   disabled?: boolean;
 }
 
-const ShareButton: React.FC<ShareButtonProps> = ({ colors, scale, lightingId, disabled = false }) => {
+const ShareButton: React.FC<ShareButtonProps> = ({ colors, scale, lightingId, seed, pattern, disabled = false }) => {
   const [copied, setCopied] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
 
@@ -22,7 +24,7 @@ const ShareButton: React.FC<ShareButtonProps> = ({ colors, scale, lightingId, di
       // Wait a brief moment to ensure URL is updated
       await new Promise(resolve => setTimeout(resolve, 50));
       
-      const shareableUrl = generateShareableURL(colors, scale, lightingId);
+      const shareableUrl = generateShareableURL({ colors, scale, lightingId, seed, pattern });
       
       // Try to use the modern Clipboard API
       if (navigator.clipboard && navigator.clipboard.writeText) {
@@ -61,7 +63,7 @@ const ShareButton: React.FC<ShareButtonProps> = ({ colors, scale, lightingId, di
           Share Configuration
         </h3>
         <p className="text-sm text-neutral-600 dark:text-neutral-400">
-          Copy a link to share this color palette and scale setting
+          Copy a link to share this color palette, scale setting and pattern
         </p>
       </div>
       
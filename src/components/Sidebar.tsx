@@ -1,17 +1,29 @@
 import React from 'react';
-import { Color } from '../types';
+import { Color, ColorwayState, PatternSettings } from '../types';
 import ColorPicker from './ColorPicker';
+import CatalogPicker from './CatalogPicker';
 import ColorPalette from './ColorPalette';
 import ScaleControl from './ScaleControl';
+import PatternControls from './PatternControls';
 import LightingSelector from './LightingSelector';
 import ShareButton from './ShareButton';
+import ExportPanel from './ExportPanel';
+import LibraryPanel from './LibraryPanel';
+import ColorwayFilePanel from './ColorwayFilePanel';
+import MetamerismPanel from './MetamerismPanel';
+import VisionSimulationSelector from './VisionSimulationSelector';
+import { LightSource, LightingModel } from '../utils/lightingUtils';
+import { ColorCoverage } from '../utils/voronoiUtils';
+import { LightDefinition } from '../utils/illuminantUtils';
+import { VisionSimulation } from '../utils/colorVisionUtils';
 
 interface SidebarProps {
   colors: Color[];
-  onColorAdd: (hex: string) => void;
+  onColorAdd: (hex: string, code?: string) => void;
   onColorRemove: (colorId: string) => void;
   onDensityChange: (colorId: string, density: number) => void;
-  onColorChange?: (colorId: string, hex: string) => void;
+  onChipSizeChange?: (colorId: string, chipSize: number) => void;
+  onColorChange?: (colorId: string, hex: string, code?: string) => void;
   onTemporaryColorChange?: (colorId: string, hex: string) => void;
   onTemporaryColorClose?: () => void;
   onTemporaryColorSave?: (colorId: string, hex: string) => void;
@@ -21,8 +33,23 @@ interface SidebarProps {
   maxColors: number;
   scale: number;
   onScaleChange: (scale: number) => void;
+  pattern: PatternSettings;
+  onPatternChange: (pattern: PatternSettings) => void;
+  coverage?: Record<string, ColorCoverage>;
   selectedLightId: string;
   onLightChange: (lightId: string) => void;
+  selectedLightSource?: LightSource;
+  lights: LightSource[];
+  onShowLight: (lightId: string) => void;
+  customLights: LightSource[];
+  onAddCustomLight: (definition: LightDefinition, name: string) => void;
+  onRemoveCustomLight: (lightId: string) => void;
+  lightingModel: LightingModel;
+  onLightingModelChange: (model: LightingModel) => void;
+  visionSimulation: VisionSimulation;
+  onVisionSimulationChange: (simulation: VisionSimulation) => void;
+  seed: number;
+  onColorwayLoad: (state: ColorwayState) => void;
   isolatedColorId?: string | null;
   onColorIsolate?: (colorId: string | null) => void;
   isGenerating: boolean;
@@ -33,6 +60,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   onColorAdd,
   onColorRemove,
   onDensityChange,
+  onChipSizeChange,
   onColorChange,
   onTemporaryColorChange,
   onTemporaryColorClose,
@@ -43,8 +71,23 @@ const Sidebar: React.FC<SidebarProps> = ({
   maxColors,
   scale,
   onScaleChange,
+  pattern,
+  onPatternChange,
+  coverage,
   selectedLightId,
   onLightChange,
+  selectedLightSource,
+  lights,
+  onShowLight,
+  customLights,
+  onAddCustomLight,
+  onRemoveCustomLight,
+  lightingModel,
+  onLightingModelChange,
+  visionSimulation,
+  onVisionSimulationChange,
+  seed,
+  onColorwayLoad,
   isolatedColorId,
   onColorIsolate,
   isGenerating,
@@ -68,6 +111,11 @@ const Sidebar: React.FC<SidebarProps> = ({
           disabled={isMaxColorsReached}
         />
         
+        <CatalogPicker
+          onColorAdd={onColorAdd}
+          disabled={isMaxColorsReached}
+        />
+        
         {isMaxColorsReached && (
           <p className="text-yellow-600 dark:text-yellow-400 text-sm mt-2">
             Maximum of {maxColors} colors reached. Remove a color to add more.
@@ -79,6 +127,7 @@ const Sidebar: React.FC<SidebarProps> = ({
         colors={colors}
         onColorRemove={onColorRemove}
         onDensityChange={onDensityChange}
+        onChipSizeChange={onChipSizeChange}
         onColorChange={onColorChange}
         onTemporaryColorChange={onTemporaryColorChange}
         onTemporaryColorClose={onTemporaryColorClose}
@@ -87,6 +136,8 @@ const Sidebar: React.FC<SidebarProps> = ({
         temporaryColorHex={temporaryColorHex}
         isolatedColorId={isolatedColorId}
         onColorIsolate={onColorIsolate}
+        coverage={coverage}
+        pattern={pattern}
       />
 
       {colors.length > 0 && (
@@ -109,10 +160,39 @@ const Sidebar: React.FC<SidebarProps> = ({
         />
       </div>
       
+      <div className="mt-6">
+        <PatternControls
+          pattern={pattern}
+          onPatternChange={onPatternChange}
+          disabled={colors.length === 0}
+        />
+      </div>
+      
       <div className="mt-6">
         <LightingSelector
           selectedLightId={selectedLightId}
           onLightChange={onLightChange}
+          customLights={customLights}
+          onAddCustomLight={onAddCustomLight}
+          onRemoveCustomLight={onRemoveCustomLight}
+          lightingModel={lightingModel}
+          onLightingModelChange={onLightingModelChange}
+        />
+      </div>
+      
+      <div className="mt-6">
+        <VisionSimulationSelector
+          simulation={visionSimulation}
+          onSimulationChange={onVisionSimulationChange}
+        />
+      </div>
+      
+      <div className="mt-6">
+        <MetamerismPanel
+          colors={colors}
+          lights={lights}
+          lightingModel={lightingModel}
+          onShowLight={onShowLight}
         />
       </div>
       
@@ -121,6 +201,36 @@ const Sidebar: React.FC<SidebarProps> = ({
           colors={colors}
           scale={scale}
           lightingId={selectedLightId}
+          seed={seed}
+          pattern={pattern}
+          disabled={isGenerating}
+        />
+      </div>
+      
+      <div className="mt-6">
+        <LibraryPanel
+          currentState={{ colors, scale, lightingId: selectedLightId, seed, pattern }}
+          onLoad={onColorwayLoad}
+        />
+      </div>
+      
+      <div className="mt-6">
+        <ColorwayFilePanel
+          currentState={{ colors, scale, lightingId: selectedLightId, seed, pattern }}
+          onImport={onColorwayLoad}
+        />
+      </div>
+      
+      <div className="mt-6">
+        <ExportPanel
+          colors={colors}
+          scale={scale}
+          seed={seed}
+          pattern={pattern}
+          lightSource={selectedLightSource}
+          lightingModel={lightingModel}
+          visionSimulation={visionSimulation}
+          isolatedColorId={isolatedColorId}
           disabled={isGenerating}
         />
       </div>
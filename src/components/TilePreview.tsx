@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Color, PatternSettings } from '../types';
+import { LightSource, LightingModel } from '../utils/lightingUtils';
+import { VisionSimulation } from '../utils/colorVisionUtils';
+import { renderSheetToCanvas } from '../utils/exportUtils';
+
+interface TilePreviewProps {
+  colors: Color[];
+  scale: number;
+  seed: number;
+  pattern: PatternSettings;
+  lightSource?: LightSource;
+  lightingModel?: LightingModel;
+  visionSimulation?: VisionSimulation;
+  isolatedColorId?: string | null;
+  onTileableChange: (tileable: boolean) => void;
+}
+
+// One sheet drawn three times across and down; layouts are size-invariant, so the
+// tile matches the main preview
+const TILE_SIZE = 240;
+const TILE_REPEAT = 3;
+
+const TilePreview: React.FC<TilePreviewProps> = ({
+  colors,
+  scale,
+  seed,
+  pattern,
+  lightSource,
+  lightingModel,
+  visionSimulation,
+  isolatedColorId,
+  onTileableChange,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showEdges, setShowEdges] = useState(false);
+
+  // Render the sheet once off screen, then stamp it into the grid
+  const tile = useMemo(() => {
+    if (colors.length === 0) return null;
+    return renderSheetToCanvas(
+      { colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId },
+      TILE_SIZE,
+      TILE_SIZE
+    );
+  }, [colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !tile) return;
+
+    canvas.width = TILE_SIZE * TILE_REPEAT;
+    canvas.height = TILE_SIZE * TILE_REPEAT;
+    for (let row = 0; row < TILE_REPEAT; row++) {
+      for (let column = 0; column < TILE_REPEAT; column++) {
+        ctx.drawImage(tile, column * TILE_SIZE, row * TILE_SIZE);
+      }
+    }
+
+    if (showEdges) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      for (let i = 1; i < TILE_REPEAT; i++) {
+        ctx.moveTo(i * TILE_SIZE + 0.5, 0);
+        ctx.lineTo(i * TILE_SIZE + 0.5, canvas.height);
+        ctx.moveTo(0, i * TILE_SIZE + 0.5);
+        ctx.lineTo(canvas.width, i * TILE_SIZE + 0.5);
+      }
+      ctx.stroke();
+    }
+  }, [tile, showEdges]);
+
+  if (colors.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-neutral-200 dark:bg-neutral-700 rounded-lg">
+        <p className="text-neutral-600 dark:text-neutral-400">Add colors to preview the sheet tiled</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-700 dark:text-neutral-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={pattern.tileable} onChange={(e) => onTileableChange(e.target.checked)} />
+          Seamless tiles
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showEdges} onChange={(e) => setShowEdges(e.target.checked)} />
+          Show tile edges
+        </label>
+        {!pattern.tileable && (
+          <span className="text-xs text-neutral-500 dark:text-neutral-400">
+            Chips are cut off at the sheet edge, so the joins show
+          </span>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-sm p-4 lg:p-6">
+        <canvas
+          ref={canvasRef}
+          className="w-full max-w-3xl mx-auto aspect-square rounded border border-neutral-300 dark:border-neutral-600"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TilePreview;
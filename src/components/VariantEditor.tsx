@@ -0,0 +1,121 @@
+import React from 'react';
+import { Color, ColorwayState } from '../types';
+import { createColor, hexToRgb, normalizeDensity, rgbToHex } from '../utils/colorUtils';
+import { LightSource } from '../utils/lightingUtils';
+
+interface VariantEditorProps {
+  state: ColorwayState;
+  maxColors: number;
+  lights: LightSource[];
+  showLighting: boolean;
+  onChange: (updater: (prev: ColorwayState) => ColorwayState) => void;
+}
+
+const inputClassName = 'px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100';
+
+// Native color inputs only accept the full #rrggbb form
+const toColorInputValue = (hex: string): string => {
+  const { r, g, b } = hexToRgb(hex);
+  return rgbToHex(r, g, b).toLowerCase();
+};
+
+const VariantEditor: React.FC<VariantEditorProps> = ({ state, maxColors, lights, showLighting, onChange }) => {
+  const updateColor = (colorId: string, changes: Partial<Color>) => {
+    onChange(prev => ({
+      ...prev,
+      colors: prev.colors.map(color => color.id === colorId ? { ...color, ...changes } : color),
+    }));
+  };
+
+  const handleHexChange = (color: Color, value: string) => {
+    const hex = value.toUpperCase();
+    // A recolored chip no longer matches its catalog code
+    updateColor(color.id, { hex, code: hex === color.hex ? color.code : undefined });
+  };
+
+  const handleDensityCommit = (color: Color, value: string) => {
+    const density = normalizeDensity(value);
+    if (density !== color.density) {
+      updateColor(color.id, { density });
+    }
+  };
+
+  const handleRemove = (colorId: string) => {
+    onChange(prev => ({ ...prev, colors: prev.colors.filter(color => color.id !== colorId) }));
+  };
+
+  const handleAdd = () => {
+    onChange(prev => ({ ...prev, colors: [...prev.colors, createColor('#808080')] }));
+  };
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {state.colors.map((color) => (
+          <li key={color.id} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={toColorInputValue(color.hex)}
+              onChange={(e) => handleHexChange(color, e.target.value)}
+              className="w-6 h-6 p-0 border border-neutral-300 dark:border-neutral-600 rounded cursor-pointer"
+              aria-label={`Change color ${color.hex}`}
+            />
+            <span className="flex-1 min-w-0 text-xs font-mono text-neutral-700 dark:text-neutral-300 truncate">
+              {color.hex}
+              {color.code && <span className="ml-1 text-neutral-500 dark:text-neutral-400">{color.code}</span>}
+            </span>
+            <input
+              // Remount when the density changes elsewhere so the field shows the new value
+              key={`${color.id}-${color.density}`}
+              type="number"
+              min={0}
+              step={0.1}
+              defaultValue={color.density}
+              onBlur={(e) => handleDensityCommit(color, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleDensityCommit(color, e.currentTarget.value);
+              }}
+              className={`${inputClassName} w-16`}
+              aria-label={`Density for ${color.hex}`}
+            />
+            <button
+              onClick={() => handleRemove(color.id)}
+              className="text-neutral-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+              aria-label={`Remove ${color.hex}`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={handleAdd}
+          disabled={state.colors.length >= maxColors}
+          className="text-xs px-2 py-0.5 rounded bg-neutral-200 hover:bg-neutral-300 dark:bg-neutral-600 dark:hover:bg-neutral-500 text-neutral-700 dark:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add color
+        </button>
+
+        {showLighting && (
+          <select
+            value={state.lightingId}
+            onChange={(e) => onChange(prev => ({ ...prev, lightingId: e.target.value }))}
+            className={inputClassName}
+            aria-label="Lighting for this variant"
+          >
+            <option value="natural">Natural (Daylight)</option>
+            {lights.map(light => (
+              <option key={light.id} value={light.id}>{light.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VariantEditor;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { COLOR_VISION_MODES, ColorVisionMode, VisionSimulation } from '../utils/colorVisionUtils';
+
+interface VisionSimulationSelectorProps {
+  simulation: VisionSimulation;
+  onSimulationChange: (simulation: VisionSimulation) => void;
+}
+
+const VisionSimulationSelector: React.FC<VisionSimulationSelectorProps> = ({ simulation, onSimulationChange }) => {
+  const selectedMode = COLOR_VISION_MODES.find(mode => mode.id === simulation.mode) ?? COLOR_VISION_MODES[0];
+  const isSimulating = simulation.mode !== 'none';
+
+  return (
+    <div className="mb-6">
+      <div className="mb-3">
+        <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+          Color Vision
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Check the sheet still reads for color-blind viewers
+        </p>
+      </div>
+
+      <select
+        value={simulation.mode}
+        onChange={(e) => onSimulationChange({ ...simulation, mode: e.target.value as ColorVisionMode })}
+        className="w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100"
+        aria-label="Color vision simulation"
+      >
+        {COLOR_VISION_MODES.map((mode) => (
+          <option key={mode.id} value={mode.id}>{mode.name}</option>
+        ))}
+      </select>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">{selectedMode.description}</p>
+
+      {isSimulating && (
+        <label className="block mt-3">
+          <span className="flex justify-between text-sm text-neutral-700 dark:text-neutral-300 mb-1">
+            Severity
+            <span>{Math.round(simulation.severity * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.1"
+            value={simulation.severity}
+            onChange={(e) => onSimulationChange({ ...simulation, severity: parseFloat(e.target.value) })}
+            className="w-full"
+          />
+        </label>
+      )}
+
+      {isSimulating && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+          Applied after lighting to the preview, lighting grid, compare view and image exports
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VisionSimulationSelector;
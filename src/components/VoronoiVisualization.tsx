@@ -1,7 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Color } from '../types';
-import { renderVoronoiToCanvas, generateSeededPoints, findCellAtPoint, CellHoverInfo } from '../utils/voronoiUtils';
-import { LightSource, getCachedColorTransform } from '../utils/lightingUtils';
+import { Color, PatternSettings } from '../types';
+import { renderVoronoiToCanvas, generateSeededPoints, findCellAtPoint, scaleToCellCount, CellHoverInfo } from '../utils/voronoiUtils';
+import { LightSource, LightingModel, applyLightingToColors } from '../utils/lightingUtils';
+import { VisionSimulation, applyVisionSimulationToColors } from '../utils/colorVisionUtils';
+import { DEFAULT_PATTERN, transformMatrixColor } from '../utils/patternUtils';
 import ColorTooltip from './ColorTooltip';
 
 interface VoronoiVisualizationProps {
@@ -9,7 +11,12 @@ interface VoronoiVisualizationProps {
   width?: number;
   height?: number;
   scale?: number;
+  seed: number;
+  pattern?: PatternSettings;
+  onRegenerate: () => void;
   lightSource?: LightSource;
+  lightingModel?: LightingModel;
+  visionSimulation?: VisionSimulation;
   isolatedColorId?: string | null;
 }
 
@@ -18,20 +25,18 @@ const VoronoiVisualization: React.FC<VoronoiVisualizationProps> = ({
   width = 600,
   height = 600,
   scale = 1.0,
+  seed,
+  pattern,
+  onRegenerate,
   lightSource,
+  lightingModel,
+  visionSimulation,
   isolatedColorId,
 }) => {
-  // Map scale 0.1-4.0 to cell count 100-10000
-  const minCells = 100;
-  const maxCells = 10000;
-  const minScale = 0.1;
-  const maxScale = 4.0;
-  
-  const cellCount = Math.round(minCells + (scale - minScale) * (maxCells - minCells) / (maxScale - minScale));
+  const cellCount = scaleToCellCount(scale);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [canvasSize, setCanvasSize] = useState({ width, height });
-  const [seed, setSeed] = useState(() => Math.random() * 1000000);
   const [cachedPoints, setCachedPoints] = useState<[number, number][]>([]);
   const [hoveredCell, setHoveredCell] = useState<CellHoverInfo | null>(null);
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
@@ -71,25 +76,28 @@ const VoronoiVisualization: React.FC<VoronoiVisualizationProps> = ({
     return () => window.removeEventListener('resize', updateCanvasSize);
   }, [width, height]);
 
-  // Generate points only when cell count or canvas size changes, or when seed changes
+  // Generate points only when cell count, canvas size, seed or pattern changes.
+  // Points are drawn as fractions of the canvas size, so the same seed yields the
+  // same layout at any viewport size.
   useEffect(() => {
     if (canvasSize.width > 0 && canvasSize.height > 0) {
-      const points = generateSeededPoints(cellCount, canvasSize.width, canvasSize.height, seed);
+      const points = generateSeededPoints(cellCount, canvasSize.width, canvasSize.height, seed, pattern);
       setCachedPoints(points);
     }
-  }, [cellCount, canvasSize.width, canvasSize.height, seed]);
+  }, [cellCount, canvasSize.width, canvasSize.height, seed, pattern]);
 
-  // Apply lighting transformation to colors if lightSource is provided
+  // Apply lighting transformation to colors if lightSource is provided, then simulate
+  // how the lit colors look to the chosen viewer
   const transformedColors = React.useMemo(() => {
-    if (!lightSource) {
-      return colors;
-    }
-    
-    return colors.map(color => ({
-      ...color,
-      hex: getCachedColorTransform(color.hex, lightSource.id)
-    }));
-  }, [colors, lightSource]);
+    return applyVisionSimulationToColors(applyLightingToColors(colors, lightSource, lightingModel), visionSimulation);
+  }, [colors, lightSource, lightingModel, visionSimulation]);
+
+  // The matrix resin is lit and simulated like the chips
+  const transformedPattern = React.useMemo(() => {
+    return transformMatrixColor(pattern ?? DEFAULT_PATTERN, matrix =>
+      applyVisionSimulationToColors(applyLightingToColors(matrix, lightSource, lightingModel), visionSimulation)
+    );
+  }, [pattern, lightSource, lightingModel, visionSimulation]);
 
   // Render canvas using cached points whenever colors, lighting, or points change
   useEffect(() => {
@@ -99,13 +107,8 @@ const VoronoiVisualization: React.FC<VoronoiVisualizationProps> = ({
     canvas.width = canvasSize.width;
     canvas.height = canvasSize.height;
 
-    renderVoronoiToCanvas(canvas, cachedPoints.length > 0 ? cachedPoints : null, transformedColors, cellCount, seed, isolatedColorId);
-  }, [transformedColors, canvasSize, cachedPoints, cellCount, seed, isolatedColorId]);
-
-  const regeneratePattern = () => {
-    // Generate a new seed to create a completely new pattern
-    setSeed(Math.random() * 1000000);
-  };
+    renderVoronoiToCanvas(canvas, cachedPoints.length > 0 ? cachedPoints : null, transformedColors, cellCount, seed, isolatedColorId, transformedPattern);
+  }, [transformedColors, canvasSize, cachedPoints, cellCount, seed, isolatedColorId, transformedPattern]);
 
   // Handle mouse move over canvas for hover detection
   const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -126,7 +129,7 @@ const VoronoiVisualization: React.FC<VoronoiVisualizationProps> = ({
     setMousePosition({ x: event.clientX - rect.left, y: event.clientY - rect.top });
     
     // Find which cell the mouse is over
-    const cellInfo = findCellAtPoint(x, y, cachedPoints, transformedColors, seed);
+    const cellInfo = findCellAtPoint(x, y, cachedPoints, transformedColors, seed, canvas.width, canvas.height, pattern);
     setHoveredCell(cellInfo);
   };
 
@@ -173,7 +176,7 @@ const VoronoiVisualization: React.FC<VoronoiVisualizationProps> = ({
       
       {colors.length > 0 && (
         <button
-          onClick={regeneratePattern}
+          onClick={onRegenerate}
           className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-neutral-800 transition-colors"
         >
           Regenerate Pattern
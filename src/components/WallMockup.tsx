@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Color, PatternSettings, WallLayout } from '../types';
+import { LightSource, LightingModel } from '../utils/lightingUtils';
+import { VisionSimulation } from '../utils/colorVisionUtils';
+import {
+  DEFAULT_WALL_LAYOUT,
+  WALL_LIMITS,
+  clampWallLayout,
+  exportWallAsPNG,
+  getFitDpi,
+  getWallPixelSize,
+  getWallSize,
+  renderWallToCanvas,
+  validateWallExport,
+} from '../utils/mockupUtils';
+
+interface WallMockupProps {
+  colors: Color[];
+  scale: number;
+  seed: number;
+  pattern: PatternSettings;
+  lightSource?: LightSource;
+  lightingModel?: LightingModel;
+  visionSimulation?: VisionSimulation;
+  isolatedColorId?: string | null;
+}
+
+// Largest on-screen preview; the wall is scaled down to fit
+const PREVIEW_WIDTH = 960;
+const PREVIEW_HEIGHT = 600;
+
+// Quiet time before the preview is redrawn, in milliseconds
+const PREVIEW_DELAY = 200;
+
+const inputClassName = 'w-full px-2 py-1 border border-neutral-300 dark:border-neutral-500 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white dark:bg-neutral-600 text-neutral-900 dark:text-neutral-100';
+
+const formatMetres = (mm: number): string => `${(mm / 1000).toFixed(2)} m`;
+
+const formatProgress = (progress: number): string => `${Math.round(progress * 100)}%`;
+
+const WallMockup: React.FC<WallMockupProps> = ({
+  colors,
+  scale,
+  seed,
+  pattern,
+  lightSource,
+  lightingModel,
+  visionSimulation,
+  isolatedColorId,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [layout, setLayout] = useState<WallLayout>(DEFAULT_WALL_LAYOUT);
+  const [dpi, setDpi] = useState(50);
+  // Share of the panels drawn so far, null when idle
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [previewProgress, setPreviewProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const wall = useMemo(() => clampWallLayout(layout), [layout]);
+  const wallSize = getWallSize(wall);
+  const exportSize = getWallPixelSize(wall, dpi);
+  const sizeError = validateWallExport(scale, wall, dpi);
+  const isExporting = exportProgress !== null;
+  const isRendering = previewProgress !== null;
+
+  // Same rendering as the export, at whatever resolution fits the preview. A big wall
+  // takes a while, so it is drawn once the controls have been still for a moment, and
+  // a render the controls have since moved past is dropped.
+  useEffect(() => {
+    if (colors.length === 0) return;
+
+    const controller = new AbortController();
+    setPreviewProgress(0);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const preview = await renderWallToCanvas(
+          { colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId },
+          wall,
+          getFitDpi(wall, PREVIEW_WIDTH, PREVIEW_HEIGHT),
+          (done, total) => {
+            if (!controller.signal.aborted) {
+              setPreviewProgress(done / total);
+            }
+          },
+          controller.signal
+        );
+
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (preview && canvas && ctx) {
+          canvas.width = preview.width;
+          canvas.height = preview.height;
+          ctx.drawImage(preview, 0, 0);
+        }
+      } catch (renderError) {
+        console.error('Failed to render wall mockup:', renderError);
+      } finally {
+        if (!controller.signal.aborted) {
+          setPreviewProgress(null);
+        }
+      }
+    }, PREVIEW_DELAY);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId, wall]);
+
+  const canExport = colors.length > 0 && !isExporting && !sizeError;
+
+  const handleExport = async () => {
+    if (!canExport) return;
+
+    setExportProgress(0);
+    setError('');
+
+    try {
+      await exportWallAsPNG(
+        { colors, scale, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId },
+        wall,
+        dpi,
+        (done, total) => setExportProgress(done / total)
+      );
+    } catch (exportError) {
+      console.error('Failed to export wall mockup:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Failed to export wall mockup');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handleLayoutChange = (key: Exclude<keyof WallLayout, 'groutColor'>) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setLayout({ ...layout, [key]: parseFloat(e.target.value) || 0 });
+    setError('');
+  };
+
+  if (colors.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-neutral-200 dark:bg-neutral-700 rounded-lg">
+        <p className="text-neutral-600 dark:text-neutral-400">Add colors to preview an installed wall</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+        <label className="text-xs text-neutral-600 dark:text-neutral-300">
+          Columns
+          <input
+            type="number"
+            min={WALL_LIMITS.columns.min}
+            max={WALL_LIMITS.columns.max}
+            value={layout.columns}
+            onChange={handleLayoutChange('columns')}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-neutral-600 dark:text-neutral-300">
+          Rows
+          <input
+            type="number"
+            min={WALL_LIMITS.rows.min}
+            max={WALL_LIMITS.rows.max}
+            value={layout.rows}
+            onChange={handleLayoutChange('rows')}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-neutral-600 dark:text-neutral-300">
+          Sheet width (mm)
+          <input
+            type="number"
+            min={WALL_LIMITS.sheetSize.min}
+            max={WALL_LIMITS.sheetSize.max}
+            value={layout.sheetWidth}
+            onChange={handleLayoutChange('sheetWidth')}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-neutral-600 dark:text-neutral-300">
+          Sheet height (mm)
+          <input
+            type="number"
+            min={WALL_LIMITS.sheetSize.min}
+            max={WALL_LIMITS.sheetSize.max}
+            value={layout.sheetHeight}
+            onChange={handleLayoutChange('sheetHeight')}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-neutral-600 dark:text-neutral-300">
+          Gap (mm)
+          <input
+            type="number"
+            min={WALL_LIMITS.gap.min}
+            max={WALL_LIMITS.gap.max}
+            value={layout.gap}
+            onChange={handleLayoutChange('gap')}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-neutral-600 dark:text-neutral-300">
+          Grout
+          <input
+            type="color"
+            value={layout.groutColor}
+            onChange={(e) => setLayout({ ...layout, groutColor: e.target.value.toUpperCase() })}
+            className="w-full h-[30px] border border-neutral-300 dark:border-neutral-500 rounded cursor-pointer bg-white dark:bg-neutral-600"
+          />
+        </label>
+      </div>
+
+      <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-sm p-4 lg:p-6">
+        <canvas
+          ref={canvasRef}
+          className={`max-w-full mx-auto block rounded border border-neutral-300 dark:border-neutral-600 transition-opacity ${isRendering ? 'opacity-60' : ''}`}
+        />
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 text-center mt-2">
+          {formatMetres(wallSize.width)} × {formatMetres(wallSize.height)} wall
+          {wall.columns * wall.rows > 1 && `, ${wall.columns * wall.rows} sheets each pressed from a separate batch`}
+          {isRendering && ` · Rendering ${formatProgress(previewProgress)}...`}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-neutral-600 dark:text-neutral-300 w-24">
+          DPI
+          <input type="number" min="1" value={dpi} onChange={(e) => { setDpi(parseFloat(e.target.value) || 0); setError(''); }} className={inputClassName} />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={!canExport}
+          className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-neutral-800 disabled:bg-neutral-400 dark:disabled:bg-neutral-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isExporting ? `Rendering ${formatProgress(exportProgress)}...` : 'Export PNG'}
+        </button>
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+          Output: {exportSize.width}×{exportSize.height} px
+        </span>
+      </div>
+
+      {(sizeError || error) && (
+        <p className="text-red-500 dark:text-red-400 text-xs">{sizeError || error}</p>
+      )}
+    </div>
+  );
+};
+
+export default WallMockup;
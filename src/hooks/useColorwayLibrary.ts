@@ -0,0 +1,92 @@
+import { useState, useCallback, useRef } from 'react';
+import { ColorwayState } from '../types';
+import {
+  SavedColorway,
+  loadLibrary,
+  saveLibrary,
+  createLibraryEntry,
+  duplicateLibraryEntry,
+  renderThumbnail,
+} from '../utils/libraryUtils';
+
+interface UseColorwayLibraryReturn {
+  entries: SavedColorway[];
+  error: string | null;
+  saveEntry: (name: string, state: ColorwayState) => void;
+  updateEntry: (id: string, state: ColorwayState) => void;
+  renameEntry: (id: string, name: string) => void;
+  duplicateEntry: (id: string) => void;
+  deleteEntry: (id: string) => void;
+  clearError: () => void;
+}
+
+export const useColorwayLibrary = (): UseColorwayLibraryReturn => {
+  const [entries, setEntries] = useState<SavedColorway[]>(() => loadLibrary());
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest entries, so consecutive commits within one event build on each other
+  const entriesRef = useRef(entries);
+
+  // Persist first so the UI never shows entries that failed to save
+  const commit = useCallback((updater: (prev: SavedColorway[]) => SavedColorway[]) => {
+    const next = updater(entriesRef.current);
+    if (next === entriesRef.current) return;
+
+    try {
+      saveLibrary(next);
+      entriesRef.current = next;
+      setEntries(next);
+      setError(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Could not save the library');
+    }
+  }, []);
+
+  const saveEntry = useCallback((name: string, state: ColorwayState) => {
+    const entry = createLibraryEntry(name, state);
+    commit(prev => [entry, ...prev]);
+  }, [commit]);
+
+  const updateEntry = useCallback((id: string, state: ColorwayState) => {
+    const thumbnail = renderThumbnail(state);
+    commit(prev => prev.map(entry =>
+      entry.id === id ? { ...entry, state, thumbnail, modifiedAt: Date.now() } : entry
+    ));
+  }, [commit]);
+
+  const renameEntry = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    commit(prev => prev.map(entry =>
+      entry.id === id ? { ...entry, name: trimmed, modifiedAt: Date.now() } : entry
+    ));
+  }, [commit]);
+
+  const duplicateEntry = useCallback((id: string) => {
+    commit(prev => {
+      const index = prev.findIndex(entry => entry.id === id);
+      if (index === -1) return prev;
+
+      const copy = duplicateLibraryEntry(prev[index]);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }, [commit]);
+
+  const deleteEntry = useCallback((id: string) => {
+    commit(prev => prev.filter(entry => entry.id !== id));
+  }, [commit]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    entries,
+    error,
+    saveEntry,
+    updateEntry,
+    renameEntry,
+    duplicateEntry,
+    deleteEntry,
+    clearError,
+  };
+};
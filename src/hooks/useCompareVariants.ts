@@ -0,0 +1,46 @@
+import { useState, useCallback } from 'react';
+import { ColorwayState } from '../types';
+import { CompareVariant, MAX_COMPARE_VARIANTS, createVariant } from '../utils/compareUtils';
+
+interface UseCompareVariantsReturn {
+  variants: CompareVariant[];
+  shareSeed: boolean;
+  shareLighting: boolean;
+  addVariant: (state: ColorwayState) => void;
+  updateVariant: (id: string, updater: (prev: ColorwayState) => ColorwayState) => void;
+  removeVariant: (id: string) => void;
+  setShareSeed: (share: boolean) => void;
+  setShareLighting: (share: boolean) => void;
+}
+
+// Variants are scratch copies for comparison; they stay out of undo history and the URL
+export const useCompareVariants = (): UseCompareVariantsReturn => {
+  const [variants, setVariants] = useState<CompareVariant[]>([]);
+  const [shareSeed, setShareSeed] = useState(true);
+  const [shareLighting, setShareLighting] = useState(true);
+
+  const addVariant = useCallback((state: ColorwayState) => {
+    setVariants(prev => prev.length >= MAX_COMPARE_VARIANTS ? prev : [...prev, createVariant(state, prev)]);
+  }, []);
+
+  const updateVariant = useCallback((id: string, updater: (prev: ColorwayState) => ColorwayState) => {
+    setVariants(prev => prev.map(variant =>
+      variant.id === id ? { ...variant, state: updater(variant.state) } : variant
+    ));
+  }, []);
+
+  const removeVariant = useCallback((id: string) => {
+    setVariants(prev => prev.filter(variant => variant.id !== id));
+  }, []);
+
+  return {
+    variants,
+    shareSeed,
+    shareLighting,
+    addVariant,
+    updateVariant,
+    removeVariant,
+    setShareSeed,
+    setShareLighting,
+  };
+};
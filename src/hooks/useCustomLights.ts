@@ -0,0 +1,52 @@
+import { useState, useCallback, useMemo } from 'react';
+import { LightSource } from '../utils/lightingUtils';
+import {
+  LightDefinition,
+  StoredCustomLight,
+  createCustomLightSource,
+  loadCustomLights,
+  parseCustomLightId,
+  saveCustomLights,
+} from '../utils/illuminantUtils';
+
+interface UseCustomLightsReturn {
+  customLights: LightSource[];
+  addCustomLight: (definition: LightDefinition, name: string) => LightSource;
+  removeCustomLight: (id: string) => void;
+}
+
+export const useCustomLights = (): UseCustomLightsReturn => {
+  const [storedLights, setStoredLights] = useState<StoredCustomLight[]>(() => loadCustomLights());
+
+  const customLights = useMemo(() => {
+    return storedLights
+      .map(({ id, name }) => parseCustomLightId(id, name))
+      .filter((light): light is LightSource => light !== undefined);
+  }, [storedLights]);
+
+  // Throws if the definition is out of range so forms can show the message
+  const addCustomLight = useCallback((definition: LightDefinition, name: string): LightSource => {
+    const light = createCustomLightSource(definition, name.trim());
+
+    // Re-adding the same white point just renames it
+    const next = storedLights.some(entry => entry.id === light.id)
+      ? storedLights.map(entry => entry.id === light.id ? { ...entry, name: light.name } : entry)
+      : [...storedLights, { id: light.id, name: light.name }];
+    saveCustomLights(next);
+    setStoredLights(next);
+
+    return light;
+  }, [storedLights]);
+
+  const removeCustomLight = useCallback((id: string) => {
+    const next = storedLights.filter(entry => entry.id !== id);
+    saveCustomLights(next);
+    setStoredLights(next);
+  }, [storedLights]);
+
+  return {
+    customLights,
+    addCustomLight,
+    removeCustomLight,
+  };
+};
@@ -0,0 +1,103 @@
+import { useState, useCallback, useRef } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+interface SetOptions {
+  // Skip the history stack entirely (e.g. state restored from the URL)
+  record?: boolean;
+  // Consecutive updates with the same key are merged into one undo step
+  // (e.g. dragging a slider)
+  coalesceKey?: string;
+}
+
+interface UseHistoryReturn<T> {
+  state: T;
+  set: (updater: (prev: T) => T, options?: SetOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export const useHistory = <T>(initialState: T | (() => T)): UseHistoryReturn<T> => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initialState === 'function' ? (initialState as () => T)() : initialState,
+    future: [],
+  }));
+  const lastCoalesce = useRef<{ key: string; time: number } | null>(null);
+
+  const set = useCallback((updater: (prev: T) => T, options: SetOptions = {}) => {
+    const { record = true, coalesceKey } = options;
+    const now = Date.now();
+    const previousCoalesce = lastCoalesce.current;
+    const shouldMerge = !!coalesceKey &&
+      previousCoalesce?.key === coalesceKey &&
+      now - previousCoalesce.time < COALESCE_WINDOW_MS;
+
+    lastCoalesce.current = coalesceKey ? { key: coalesceKey, time: now } : null;
+
+    setHistory(prev => {
+      const next = updater(prev.present);
+      if (Object.is(next, prev.present)) {
+        return prev;
+      }
+
+      if (!record || shouldMerge) {
+        return { ...prev, present: next };
+      }
+
+      return {
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastCoalesce.current = null;
+    setHistory(prev => {
+      if (prev.past.length === 0) {
+        return prev;
+      }
+
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastCoalesce.current = null;
+    setHistory(prev => {
+      if (prev.future.length === 0) {
+        return prev;
+      }
+
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -1,43 +1,54 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { Color } from '../types';
+import { Color, PatternSettings } from '../types';
 import { 
   getStateFromURL, 
   updateURL, 
   debounce, 
-  isValidURLState 
+  isValidURLState,
+  URLState
 } from '../utils/urlUtils';
+import { isSamePattern } from '../utils/patternUtils';
+import { getChipSize } from '../utils/colorUtils';
 
 interface UseURLStateProps {
   colors: Color[];
   scale: number;
   lightingId: string;
+  seed: number;
+  pattern: PatternSettings;
   onColorsChange: (colors: Color[]) => void;
   onScaleChange: (scale: number) => void;
   onLightingChange: (lightingId: string) => void;
+  onSeedChange: (seed: number) => void;
+  onPatternChange: (pattern: PatternSettings) => void;
 }
 
 interface UseURLStateReturn {
-  updateURLWithState: (colors: Color[], scale: number, lightingId: string) => void;
-  loadStateFromURL: () => { colors: Color[], scale: number, lightingId: string } | null;
+  updateURLWithState: (state: URLState) => void;
+  loadStateFromURL: () => URLState | null;
 }
 
 export const useURLState = ({
   colors,
   scale,
   lightingId,
+  seed,
+  pattern,
   onColorsChange,
   onScaleChange,
   onLightingChange,
+  onSeedChange,
+  onPatternChange,
 }: UseURLStateProps): UseURLStateReturn => {
   const isInitialLoad = useRef(true);
   const isUpdatingFromURL = useRef(false);
   
   // Debounced URL update function
   const debouncedUpdateURL = useRef(
-    debounce((colors: Color[], scale: number, lightingId: string) => {
+    debounce((state: URLState) => {
       // Only update URL if we're not currently updating from URL
       if (!isUpdatingFromURL.current) {
-        updateURL(colors, scale, lightingId);
+        updateURL(state);
       }
     }, 300)
   ).current;
@@ -53,14 +64,14 @@ export const useURLState = ({
     return null;
   }, []);
 
-  // Update URL when colors, scale, or lighting changes
-  const updateURLWithState = useCallback((colors: Color[], scale: number, lightingId: string) => {
+  // Update URL when colors, scale, lighting, seed or pattern changes
+  const updateURLWithState = useCallback((state: URLState) => {
     // Don't update URL if we're currently loading from URL
     if (isUpdatingFromURL.current) {
       return;
     }
     
-    debouncedUpdateURL(colors, scale, lightingId);
+    debouncedUpdateURL(state);
   }, [debouncedUpdateURL]);
 
   // Load initial state from URL (only on mount)
@@ -77,6 +88,8 @@ export const useURLState = ({
           urlState.colors.some((urlColor, index) => 
             !colors[index] || 
             urlColor.hex !== colors[index].hex || 
+            urlColor.code !== colors[index].code ||
+            getChipSize(urlColor) !== getChipSize(colors[index]) ||
             urlColor.density !== colors[index].density
           );
         
@@ -95,6 +108,15 @@ export const useURLState = ({
           onLightingChange(urlState.lightingId);
         }
         
+        // Links without a seed keep the locally generated one
+        if (urlState.seed !== undefined && urlState.seed !== seed) {
+          onSeedChange(urlState.seed);
+        }
+        
+        if (!isSamePattern(urlState.pattern, pattern)) {
+          onPatternChange(urlState.pattern);
+        }
+        
         // Reset flag after state updates have been applied
         setTimeout(() => {
           isUpdatingFromURL.current = false;
@@ -108,9 +130,9 @@ export const useURLState = ({
   // Update URL when state changes (after initial load)
   useEffect(() => {
     if (!isInitialLoad.current) {
-      updateURLWithState(colors, scale, lightingId);
+      updateURLWithState({ colors, scale, lightingId, seed, pattern });
     }
-  }, [colors, scale, lightingId, updateURLWithState]);
+  }, [colors, scale, lightingId, seed, pattern, updateURLWithState]);
 
   // Handle browser back/forward navigation
   useEffect(() => {
@@ -123,6 +145,12 @@ export const useURLState = ({
         onColorsChange(urlState.colors);
         onScaleChange(urlState.scale);
         onLightingChange(urlState.lightingId);
+        
+        if (urlState.seed !== undefined) {
+          onSeedChange(urlState.seed);
+        }
+        
+        onPatternChange(urlState.pattern);
       }
       
       // Reset flag after state updates
@@ -136,10 +164,10 @@ export const useURLState = ({
     return () => {
       window.removeEventListener('popstate', handlePopState);
     };
-  }, [onColorsChange, onScaleChange, onLightingChange, loadStateFromURL]);
+  }, [onColorsChange, onScaleChange, onLightingChange, onSeedChange, onPatternChange, loadStateFromURL]);
 
   return {
     updateURLWithState,
     loadStateFromURL,
   };
-};
\ No newline at end of file
+};
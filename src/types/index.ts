@@ -2,7 +2,10 @@ export interface Color {
   id: string;
   hex: string;
   name?: string;
+  code?: string;      // Pantone Plastics code when picked from the catalog
   density: number;
+  reflectance?: number[];  // Measured reflectance (0-1) every 10nm from 380nm to 780nm
+  chipSize?: number;       // Relative chip size; 1 (standard) when absent
 }
 
 export interface ColorPalette {
@@ -14,4 +17,63 @@ export interface VoronoiCell {
   x: number;
   y: number;
   color: string;
-}
\ No newline at end of file
+}
+
+export interface CatalogEntry {
+  code: string;
+  hex: string;
+}
+
+// How cells get their colors: independent weighted draws, or a shuffled quota
+// that gives each color exactly its share of the cells
+export type ColorAssignmentMode = 'random' | 'quota';
+
+// Where chip centers fall: uniformly at random, blue noise with a minimum spacing,
+// Lloyd-relaxed toward even cells, or in clumps around parent points
+export type PointDistribution = 'uniform' | 'poisson' | 'lloyd' | 'clustered';
+
+// Clustered layouts scatter chips around each parent with a Gaussian (Thomas)
+// or evenly within a disc (Matérn)
+export type ClusterKernel = 'thomas' | 'matern';
+
+// How each chip is drawn from its cell: the exact cell, a jagged flake, a rounded
+// granule, a shard stretched along the flow direction, or a terrazzo fragment
+// set in a background matrix
+export type ChipShape = 'cells' | 'jagged' | 'granules' | 'shards' | 'terrazzo';
+
+// How chips are laid out and colored, independent of the palette
+export interface PatternSettings {
+  assignment: ColorAssignmentMode;
+  distribution: PointDistribution;
+  spacing: number;            // Poisson-disc minimum spacing, as a fraction of the mean chip spacing
+  relaxation: number;         // Lloyd iterations
+  clusterKernel: ClusterKernel;
+  clusterSize: number;        // Mean chips per cluster
+  clusterSpread: number;      // Cluster radius, as a fraction of the mean spacing between clusters
+  shape: ChipShape;
+  flowAngle: number;          // Flow direction in degrees, 0 is horizontal
+  flowStretch: number;        // Chip length to width along the flow, 1 is unstretched
+  tileable: boolean;          // Chips wrap around the edges so copies of the sheet join seamlessly
+  coverage: number;           // Share of the sheet chips cover, the rest shows the matrix
+  matrixColor: string;        // Base resin the chips are set in
+  matrixOpacity: number;      // 1 is opaque; lower lets the white backing show through
+}
+
+// An installed wall of sheets, all sizes in millimetres
+export interface WallLayout {
+  columns: number;
+  rows: number;
+  sheetWidth: number;
+  sheetHeight: number;
+  gap: number;                // Joint between neighbouring sheets
+  groutColor: string;         // What shows in the joints
+}
+
+// Everything needed to reproduce a sheet: the palette and how it is viewed
+export interface ColorwayState {
+  colors: Color[];
+  scale: number;
+  lightingId: string;
+  seed: number;
+  pattern: PatternSettings;
+}
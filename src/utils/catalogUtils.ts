@@ -0,0 +1,87 @@
+// Pantone Plastics catalog lookup
+// Backed by the reference CSV shipped in ref/, bundled as raw text at build time
+import catalogCsv from '../../ref/plastics-to-hex-lookup.csv?raw';
+import { CatalogEntry } from '../types';
+import { isValidHexColor } from './colorUtils';
+import { LabColor, hexToLab, deltaE2000 } from './colorDifferenceUtils';
+
+// A catalog entry paired with its perceptual distance from a target color
+export interface CatalogMatch {
+  entry: CatalogEntry;
+  deltaE: number;
+}
+
+// Parse "code,hex" rows, skipping the header and anything malformed
+export const parseCatalogCsv = (csv: string): CatalogEntry[] => {
+  const entries: CatalogEntry[] = [];
+  const lines = csv.split(/\r?\n/).slice(1);
+  
+  for (const line of lines) {
+    const [rawCode, rawHex] = line.split(',').map(field => field.trim());
+    if (!rawCode || !rawHex) continue;
+    
+    const hex = `#${rawHex.replace('#', '')}`.toUpperCase();
+    if (!isValidHexColor(hex)) {
+      console.warn(`Skipping catalog entry with invalid hex: ${line}`);
+      continue;
+    }
+    
+    entries.push({ code: rawCode.toUpperCase(), hex });
+  }
+  
+  // Sort by code so related chips sit next to each other in the picker
+  return entries.sort((a, b) => a.code.localeCompare(b.code));
+};
+
+export const PANTONE_PLASTICS: CatalogEntry[] = parseCatalogCsv(catalogCsv);
+
+export const isValidCatalogCode = (code: string): boolean => {
+  return /^[A-Z0-9][A-Z0-9-]{0,31}$/i.test(code);
+};
+
+export const findCatalogEntryByCode = (code: string): CatalogEntry | undefined => {
+  const normalized = code.trim().toUpperCase();
+  return PANTONE_PLASTICS.find(entry => entry.code === normalized);
+};
+
+// Match on code or hex so either "Q722" or "7D8E" narrows the list
+export const searchCatalog = (query: string, entries: CatalogEntry[] = PANTONE_PLASTICS): CatalogEntry[] => {
+  const normalized = query.trim().toUpperCase().replace('#', '');
+  if (!normalized) {
+    return entries;
+  }
+  
+  return entries.filter(entry => 
+    entry.code.includes(normalized) || entry.hex.replace('#', '').includes(normalized)
+  );
+};
+
+// Catalog Lab values never change, so convert each entry only once
+const catalogLabCache = new Map<string, LabColor>();
+
+const getCatalogLab = (entry: CatalogEntry): LabColor => {
+  let lab = catalogLabCache.get(entry.hex);
+  if (!lab) {
+    lab = hexToLab(entry.hex);
+    catalogLabCache.set(entry.hex, lab);
+  }
+  return lab;
+};
+
+// Find the catalog chips that look most like the given color (by ΔE2000)
+export const findNearestCatalogEntries = (
+  hex: string,
+  count: number = 3,
+  entries: CatalogEntry[] = PANTONE_PLASTICS
+): CatalogMatch[] => {
+  if (!isValidHexColor(hex) || count <= 0) {
+    return [];
+  }
+  
+  const targetLab = hexToLab(hex);
+  
+  return entries
+    .map(entry => ({ entry, deltaE: deltaE2000(targetLab, getCatalogLab(entry)) }))
+    .sort((a, b) => a.deltaE - b.deltaE)
+    .slice(0, count);
+};
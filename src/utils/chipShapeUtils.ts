@@ -0,0 +1,283 @@
+// Chip shape renderers: each turns a chip's cell into the outline that is drawn.
+// Outlines are plain polygons so the canvas, SVG and coverage code can share them.
+
+import { ChipShape, PatternSettings } from '../types';
+import { RANDOM_STREAMS, RandomSource, createSeededRandom, hashValues } from './randomUtils';
+import { wrapCoordinate } from './tilingUtils';
+
+type Point = [number, number];
+type Polygon = Point[];
+
+// Everything a shape may use besides the cell itself
+export interface ChipContext {
+  index: number;
+  seed: number;
+  pattern: PatternSettings;
+  width: number;
+  height: number;
+  spacing: number;        // Mean distance between chip centers
+  random: RandomSource;   // Stream of this chip alone
+}
+
+export interface ChipShapeRenderer {
+  // Closed outline (first vertex repeated) for a closed cell ring
+  outline: (cell: Polygon, context: ChipContext) => Polygon;
+  // Paint plain cells first so gaps left between outlines show a neighbouring chip
+  underlay: boolean;
+  // Share of its cell a chip covers before the coverage setting applies; below 1
+  // the chips sit apart on the matrix
+  fill: number;
+}
+
+// Share of its cell a terrazzo fragment covers
+const TERRAZZO_FILL = 0.7;
+
+// Jagged edges: points per edge and how far they stray, as a fraction of the edge length
+const JAGGED_SEGMENTS = 4;
+const JAGGED_AMPLITUDE = 0.12;
+
+// Granules are rounded by corner cutting, then grown to overlap their neighbours
+const GRANULE_SMOOTHING = 3;
+const GRANULE_GROWTH = 1.15;
+
+// Shards are stretched along the flow direction and thinned across it
+const SHARD_STRETCH = 1.7;
+const SHARD_THINNING = 0.7;
+const SHARD_ANGLE_JITTER = 12;  // degrees
+
+const centroidOf = (ring: Polygon): Point => {
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    twiceArea += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+
+  if (twiceArea === 0) {
+    return ring[0];
+  }
+  return [cx / (3 * twiceArea), cy / (3 * twiceArea)];
+};
+
+const areaOf = (ring: Polygon): number => {
+  let twiceArea = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    twiceArea += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+const closeRing = (vertices: Polygon): Polygon => [...vertices, vertices[0]];
+
+// Sheet edges stay straight so the chips still fill the sheet to its border
+const isOnBorder = (a: Point, b: Point, width: number, height: number): boolean => {
+  const epsilon = 1e-6 * Math.max(width, height);
+  return (Math.abs(a[0] - b[0]) < epsilon && (Math.abs(a[0]) < epsilon || Math.abs(a[0] - width) < epsilon)) ||
+    (Math.abs(a[1] - b[1]) < epsilon && (Math.abs(a[1]) < epsilon || Math.abs(a[1] - height) < epsilon));
+};
+
+// Points strictly between a and b. Both chips sharing an edge must draw the same
+// jagged line, so the offsets are seeded from the edge itself, in a fixed direction,
+// with coordinates in units of chip spacing so the preview and exports agree. On a
+// tile the chips either side of a wrapped edge see it a whole tile apart, so it is
+// seeded where its middle falls on the sheet.
+const jaggedEdge = (a: Point, b: Point, context: ChipContext): Polygon => {
+  const forward = a[0] < b[0] || (a[0] === b[0] && a[1] <= b[1]);
+  const [start, end] = forward ? [a, b] : [b, a];
+  const quantize = (value: number) => Math.round(value / context.spacing * 1000);
+
+  let [shiftX, shiftY] = [0, 0];
+  if (context.pattern.tileable) {
+    const middleX = (start[0] + end[0]) / 2;
+    const middleY = (start[1] + end[1]) / 2;
+    shiftX = wrapCoordinate(middleX, context.width) - middleX;
+    shiftY = wrapCoordinate(middleY, context.height) - middleY;
+  }
+  const random = createSeededRandom(
+    hashValues(
+      context.seed,
+      quantize(start[0] + shiftX),
+      quantize(start[1] + shiftY),
+      quantize(end[0] + shiftX),
+      quantize(end[1] + shiftY)
+    ),
+    RANDOM_STREAMS.shapes
+  );
+
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const points: Polygon = [];
+  for (let i = 1; i < JAGGED_SEGMENTS; i++) {
+    const t = i / JAGGED_SEGMENTS;
+    const offset = (random() * 2 - 1) * JAGGED_AMPLITUDE;
+    points.push([start[0] + t * dx - offset * dy, start[1] + t * dy + offset * dx]);
+  }
+
+  return forward ? points : points.reverse();
+};
+
+// Chaikin corner cutting on a closed ring
+const smoothRing = (ring: Polygon, iterations: number): Polygon => {
+  let vertices = ring.slice(0, -1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const next: Polygon = [];
+    vertices.forEach((current, i) => {
+      const following = vertices[(i + 1) % vertices.length];
+      next.push([0.75 * current[0] + 0.25 * following[0], 0.75 * current[1] + 0.25 * following[1]]);
+      next.push([0.25 * current[0] + 0.75 * following[0], 0.25 * current[1] + 0.75 * following[1]]);
+    });
+    vertices = next;
+  }
+
+  return closeRing(vertices);
+};
+
+// Scale by along/across the given direction around a center
+const stretchRing = (ring: Polygon, center: Point, angle: number, along: number, across: number): Polygon => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return ring.map(([x, y]) => {
+    const dx = x - center[0];
+    const dy = y - center[1];
+    const u = (dx * cos + dy * sin) * along;
+    const v = (-dx * sin + dy * cos) * across;
+    return [center[0] + u * cos - v * sin, center[1] + u * sin + v * cos] as Point;
+  });
+};
+
+export const CHIP_SHAPE_RENDERERS: Record<ChipShape, ChipShapeRenderer> = {
+  cells: {
+    outline: (cell) => cell,
+    underlay: false,
+    fill: 1,
+  },
+  jagged: {
+    outline: (cell, context) => {
+      const vertices: Polygon = [];
+      for (let i = 0; i < cell.length - 1; i++) {
+        vertices.push(cell[i]);
+        // Tiles have no border: their cells run over the edge
+        if (context.pattern.tileable || !isOnBorder(cell[i], cell[i + 1], context.width, context.height)) {
+          vertices.push(...jaggedEdge(cell[i], cell[i + 1], context));
+        }
+      }
+      return closeRing(vertices);
+    },
+    underlay: true,
+    fill: 1,
+  },
+  granules: {
+    outline: (cell) => {
+      const center = centroidOf(cell);
+      const rounded = smoothRing(cell, GRANULE_SMOOTHING);
+      return rounded.map(([x, y]) => [
+        center[0] + (x - center[0]) * GRANULE_GROWTH,
+        center[1] + (y - center[1]) * GRANULE_GROWTH,
+      ] as Point);
+    },
+    underlay: true,
+    fill: 1,
+  },
+  shards: {
+    outline: (cell, context) => {
+      const jitter = (context.random() * 2 - 1) * SHARD_ANGLE_JITTER;
+      const angle = (context.pattern.flowAngle + jitter) * Math.PI / 180;
+      const stretch = SHARD_STRETCH * (0.8 + 0.4 * context.random());
+      return stretchRing(cell, centroidOf(cell), angle, stretch, SHARD_THINNING);
+    },
+    underlay: true,
+    fill: 1,
+  },
+  terrazzo: {
+    // Angular fragment: each corner pulled in by a random amount, sized so the
+    // fragment covers about its fill of the cell
+    outline: (cell, context) => {
+      const center = centroidOf(cell);
+      const scale = Math.sqrt(TERRAZZO_FILL) / 0.9;
+      const vertices = cell.slice(0, -1).map(([x, y]) => {
+        const pull = scale * (0.8 + 0.2 * context.random());
+        return [center[0] + (x - center[0]) * pull, center[1] + (y - center[1]) * pull] as Point;
+      });
+      return closeRing(vertices);
+    },
+    underlay: false,
+    fill: TERRAZZO_FILL,
+  },
+};
+
+// Share of the sheet the chips are meant to cover; the matrix shows in the rest
+export const getChipCoverage = (pattern: PatternSettings): number => {
+  return pattern.coverage * CHIP_SHAPE_RENDERERS[pattern.shape].fill;
+};
+
+export const showsMatrix = (pattern: PatternSettings): boolean => {
+  return getChipCoverage(pattern) < 1;
+};
+
+// Outline for every chip (null where the cell is empty), in cell order. On a matrix
+// the outlines are scaled about their centers so that together they cover the
+// chip coverage share of the cells, whatever the shape's own growth or overlap.
+export const computeChipOutlines = (
+  cells: (Polygon | null)[],
+  width: number,
+  height: number,
+  seed: number,
+  pattern: PatternSettings
+): (Polygon | null)[] => {
+  const renderer = CHIP_SHAPE_RENDERERS[pattern.shape] ?? CHIP_SHAPE_RENDERERS.cells;
+  const onMatrix = showsMatrix(pattern);
+  if (renderer === CHIP_SHAPE_RENDERERS.cells && !onMatrix) {
+    return cells;
+  }
+
+  const spacing = Math.sqrt(width * height / Math.max(1, cells.length));
+
+  const outlines = cells.map((cell, index) => {
+    if (!cell) {
+      return null;
+    }
+
+    return renderer.outline(cell, {
+      index,
+      seed,
+      pattern,
+      width,
+      height,
+      spacing,
+      random: createSeededRandom(seed, RANDOM_STREAMS.shapes + index),
+    });
+  });
+  if (!onMatrix) {
+    return outlines;
+  }
+
+  let cellArea = 0;
+  let outlineArea = 0;
+  cells.forEach((cell, index) => {
+    const outline = outlines[index];
+    if (cell && outline) {
+      cellArea += areaOf(cell);
+      outlineArea += areaOf(outline);
+    }
+  });
+  if (outlineArea === 0) {
+    return outlines;
+  }
+
+  const shrink = Math.sqrt(getChipCoverage(pattern) * cellArea / outlineArea);
+  return outlines.map(outline => {
+    if (!outline) {
+      return null;
+    }
+    const center = centroidOf(outline);
+    return outline.map(([x, y]) => [center[0] + (x - center[0]) * shrink, center[1] + (y - center[1]) * shrink] as Point);
+  });
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Color, PatternSettings } from '../types';
+import { DEFAULT_PATTERN } from './patternUtils';
+import { assignCellColors, computeCellPolygons, findCellAtPoint, generateSeededPoints, generateSheetPoints } from './voronoiUtils';
+
+const WIDTH = 600;
+const HEIGHT = 600;
+
+const palette = (sizes: number[]): Color[] => {
+  return sizes.map((chipSize, index) => ({ id: `c${index}`, hex: '#000000', density: 1, chipSize }));
+};
+
+const getRingArea = (ring: [number, number][]): number => {
+  let twiceArea = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    twiceArea += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+// Cells of a mixed sheet, with each color's share of the area against its share of
+// the chips drawn, weighted by size squared
+const measureSheet = (colors: Color[], seed: number, pattern: PatternSettings) => {
+  const points = generateSeededPoints(1000, WIDTH, HEIGHT, seed, pattern);
+  const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment);
+  const polygons = computeCellPolygons(points, cellColors, WIDTH, HEIGHT, pattern);
+
+  const totalSquaredSize = cellColors.reduce((sum, color) => sum + (color.chipSize ?? 1) ** 2, 0);
+  const shares = colors.map(color => {
+    const indices = cellColors.flatMap((cellColor, i) => cellColor.id === color.id ? [i] : []);
+    return {
+      area: indices.reduce((sum, i) => sum + (polygons[i] ? getRingArea(polygons[i]!) : 0), 0) / (WIDTH * HEIGHT),
+      target: indices.length * (color.chipSize ?? 1) ** 2 / totalSquaredSize,
+    };
+  });
+  return { polygons, shares };
+};
+
+// Mean of the vertices, inside any convex cell
+const getCellCenter = (ring: [number, number][]): [number, number] => {
+  const vertices = ring.slice(0, -1);
+  return [
+    vertices.reduce((sum, [x]) => sum + x, 0) / vertices.length,
+    vertices.reduce((sum, [, y]) => sum + y, 0) / vertices.length,
+  ];
+};
+
+// Hover names the chip whose cell is drawn under the pointer
+const expectHoverMatchesCells = (colors: Color[], seed: number, pattern: PatternSettings) => {
+  const points = generateSeededPoints(1000, WIDTH, HEIGHT, seed, pattern);
+  const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment);
+  const polygons = computeCellPolygons(points, cellColors, WIDTH, HEIGHT, pattern);
+
+  polygons.forEach((polygon, index) => {
+    if (index % 10 !== 0 || !polygon) return;
+    const [x, y] = getCellCenter(polygon);
+    expect(findCellAtPoint(x, y, points, colors, seed, WIDTH, HEIGHT, pattern)?.cellIndex).toBe(index);
+  });
+};
+
+const PATTERNS: [string, PatternSettings][] = [
+  ['uniform', DEFAULT_PATTERN],
+  ['tileable', { ...DEFAULT_PATTERN, tileable: true }],
+  ['stretched', { ...DEFAULT_PATTERN, flowStretch: 3, flowAngle: 30 }],
+];
+
+describe('mixed chip sizes', () => {
+  PATTERNS.forEach(([name, pattern]) => {
+    it(`gives every chip a cell and each size its share of the area (${name})`, () => {
+      [1, 2].forEach(seed => {
+        const { polygons, shares } = measureSheet(palette([0.5, 2]), seed, pattern);
+        expect(polygons.filter(polygon => !polygon)).toHaveLength(0);
+        shares.forEach(({ area, target }) => {
+          expect(Math.abs(area - target)).toBeLessThan(0.015);
+        });
+      });
+    });
+  });
+
+  it('balances three sizes', () => {
+    const { polygons, shares } = measureSheet(palette([0.5, 1, 1.5]), 3, DEFAULT_PATTERN);
+    expect(polygons.filter(polygon => !polygon)).toHaveLength(0);
+    shares.forEach(({ area, target }) => {
+      expect(Math.abs(area - target)).toBeLessThan(0.015);
+    });
+  });
+});
+
+describe('sheets longer than the preview', () => {
+  [PATTERNS[0], PATTERNS[2]].forEach(([name, pattern]) => {
+    it(`keeps the preview square's cells and covers the strip (${name})`, () => {
+      const colors = palette([0.5, 2]);
+      const seed = 3;
+      const points = generateSheetPoints(1000, WIDTH * 1.5, HEIGHT, seed, pattern);
+      const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment, 1000);
+      const sheet = computeCellPolygons(points, cellColors, WIDTH * 1.5, HEIGHT, pattern, 1000);
+      const square = computeCellPolygons(points.slice(0, 1000), cellColors.slice(0, 1000), WIDTH, HEIGHT, pattern);
+
+      expect(sheet.slice(0, 1000)).toEqual(square);
+      expect(sheet.filter(polygon => !polygon)).toHaveLength(0);
+      const area = sheet.reduce((sum, polygon) => sum + getRingArea(polygon!), 0);
+      expect(area / (WIDTH * 1.5 * HEIGHT)).toBeCloseTo(1, 6);
+    });
+  });
+});
+
+describe('findCellAtPoint', () => {
+  it('finds the drawn cell for mixed sizes', () => {
+    expectHoverMatchesCells(palette([0.5, 2]), 1, DEFAULT_PATTERN);
+    expectHoverMatchesCells(palette([1, 3]), 2, { ...DEFAULT_PATTERN, flowStretch: 3, flowAngle: 30 });
+  });
+
+  it('goes by the sizes drawn, not the whole palette', () => {
+    // The coarse color never gets a chip, so the sheet is a plain Voronoi diagram
+    const colors = [...palette([1]), { id: 'unused', hex: '#FFFFFF', density: 0, chipSize: 3 }];
+    expectHoverMatchesCells(colors, 1, DEFAULT_PATTERN);
+  });
+});
@@ -0,0 +1,659 @@
+// Mixed chip sizes: chips are spaced for their sizes and drawn as a power diagram whose
+// weights are solved so each size covers its share of the sheet. No chip is swallowed:
+// a weight never exceeds what the distance to the neighbouring chips allows.
+
+import { PatternSettings } from '../types';
+import { Bounds, FlowStretch, clipPolygon, getFlowDomain, getFlowStretch, mapCellToSheet } from './flowUtils';
+import { getTiledBounds, replicatePoints, wrapCoordinate, wrapOffset } from './tilingUtils';
+import { hashValues } from './randomUtils';
+
+type Point = [number, number];
+type Polygon = Point[];
+
+export interface SpacedChips {
+  points: Point[];
+  weights: number[];  // Power diagram weight per chip, in squared sheet units
+  squareCount?: number;  // Leading chips that form the preview square, drawn apart from the strip
+}
+
+// Each chip starts as a disk holding this share of its target area; the rest is the
+// gaps a random packing leaves. Below the random close packing of mixed disks
+// (about 0.84), so the disks can be moved apart.
+const DISK_PACKING = 0.8;
+
+// Passes that push overlapping disks apart. A chip caged by bigger ones may not get
+// free; the weight limit below allows for it.
+const SPACING_PASSES = 20;
+
+// Disks move little in a pass, so the pairs close enough to meet are found again only
+// every few passes, keeping those within this multiple of touching
+const PAIR_REFRESH_PASSES = 10;
+const PAIR_SLACK = 1.5;
+
+// Cells measured per chip size while solving the weights, and when to stop
+const AREA_SAMPLE_SIZE = 500;
+const MAX_AREA_STEPS = 5;
+const AREA_TOLERANCE = 0.002;
+
+// A chip must stay strictly inside its own cell, so weights keep this much margin
+const WEIGHT_MARGIN = 0.99;
+
+// Offset from a to b as the diagram measures it: across the edges on a tile and in
+// flow space for stretched patterns
+const createMeasure = (width: number, height: number, stretch: FlowStretch | null, tileable: boolean) => {
+  return ([ax, ay]: Point, [bx, by]: Point): Point => {
+    const offset: Point = tileable ? [wrapOffset(bx - ax, width), wrapOffset(by - ay, height)] : [bx - ax, by - ay];
+    return stretch ? stretch.toFlow(offset) : offset;
+  };
+};
+
+// Pairs of points closer than reach on the sheet (and some a little farther), each
+// pair once and only those keep accepts
+const findNeighbourPairs = (
+  points: Point[],
+  width: number,
+  height: number,
+  reach: number,
+  tileable: boolean,
+  keep: (i: number, j: number) => boolean
+): [number, number][] => {
+  const columns = Math.max(1, Math.floor(width / reach));
+  const rows = Math.max(1, Math.floor(height / reach));
+  const toColumn = (x: number) => Math.min(columns - 1, Math.max(0, Math.floor(x / width * columns)));
+  const toRow = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(y / height * rows)));
+
+  const grid: number[][] = Array.from({ length: columns * rows }, () => []);
+  points.forEach(([x, y], i) => grid[toRow(y) * columns + toColumn(x)].push(i));
+
+  const neighbours = (index: number, size: number): number[] => {
+    const candidates = [index - 1, index, index + 1];
+    return tileable
+      ? [...new Set(candidates.map(candidate => wrapCoordinate(candidate, size)))]
+      : candidates.filter(candidate => candidate >= 0 && candidate < size);
+  };
+
+  const pairs: [number, number][] = [];
+  points.forEach(([x, y], i) => {
+    for (const gridRow of neighbours(toRow(y), rows)) {
+      for (const gridColumn of neighbours(toColumn(x), columns)) {
+        for (const j of grid[gridRow * columns + gridColumn]) {
+          if (j > i && keep(i, j)) {
+            pairs.push([i, j]);
+          }
+        }
+      }
+    }
+  });
+  return pairs;
+};
+
+// Move overlapping disks apart, the smaller one further. Pairs are resolved one after
+// another, which settles far faster than moving every chip at once. Deterministic, so
+// the preview, exports and hover agree. The first pinned chips hold their place and
+// the others stay within free.
+const separateDisks = (
+  points: Point[],
+  radii: number[],
+  width: number,
+  height: number,
+  stretch: FlowStretch | null,
+  tileable: boolean,
+  pinned: number = 0,
+  [left, top, right, bottom]: Bounds = [0, 0, width, height]
+): Point[] => {
+  const measure = createMeasure(width, height, stretch, tileable);
+  // Grid wide enough for two of the biggest disks, however far the flow lengthens them
+  const reach = 2 * Math.max(...radii) * (stretch?.maxStretch ?? 1);
+  const current = points.map(([x, y]) => [x, y] as Point);
+
+  const move = (index: number, offset: Point) => {
+    const [x, y] = current[index];
+    const [dx, dy] = stretch ? stretch.toSheet(offset) : offset;
+    current[index] = tileable
+      ? [wrapCoordinate(x + dx, width), wrapCoordinate(y + dy, height)]
+      : [Math.min(Math.max(x + dx, left), right), Math.min(Math.max(y + dy, top), bottom)];
+  };
+
+  let pairs: [number, number][] = [];
+  for (let pass = 0; pass < SPACING_PASSES; pass++) {
+    let moved = false;
+
+    if (pass % PAIR_REFRESH_PASSES === 0) {
+      pairs = findNeighbourPairs(current, width, height, reach, tileable, (i, j) => {
+        if (j < pinned) return false;
+        const [dx, dy] = measure(current[i], current[j]);
+        return Math.hypot(dx, dy) < PAIR_SLACK * (radii[i] + radii[j]);
+      });
+    }
+
+    for (const [i, j] of pairs) {
+      let [dx, dy] = measure(current[i], current[j]);
+      let distance = Math.hypot(dx, dy);
+      const overlap = radii[i] + radii[j] - distance;
+      if (overlap <= 0) continue;
+
+      moved = true;
+      if (distance === 0) {
+        // Coincident points part in a direction fixed by their indices
+        const angle = (i * 0.618034 + j) * 2 * Math.PI;
+        [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+        distance = 1;
+      }
+
+      // Each moves by the other's share of the area, so big chips hold their place. Pairs
+      // come with i < j, so only i can be pinned.
+      const areaI = i < pinned ? 1 : radii[i] * radii[i];
+      const areaJ = i < pinned ? 0 : radii[j] * radii[j];
+      const pushI = overlap * areaJ / (areaI + areaJ) / distance;
+      const pushJ = overlap * areaI / (areaI + areaJ) / distance;
+      move(i, [-dx * pushI, -dy * pushI]);
+      move(j, [dx * pushJ, dy * pushJ]);
+
+      // A chip held back by the sheet edge leaves part of the overlap; split the rest
+      // evenly so the other chip makes room
+      if (!tileable) {
+        [dx, dy] = measure(current[i], current[j]);
+        distance = Math.hypot(dx, dy);
+        const rest = radii[i] + radii[j] - distance;
+        if (rest > 0 && distance > 0) {
+          const push = rest / (i < pinned ? 1 : 2) / distance;
+          if (i >= pinned) {
+            move(i, [-dx * push, -dy * push]);
+          }
+          move(j, [dx * push, dy * push]);
+        }
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  return current;
+};
+
+// Chip i owns the sheet where |x - p_i|² - w_i is smallest, so it keeps a cell around
+// its own point as long as w_j - w_i < |p_i - p_j|² for every other chip j. Lower each
+// weight to the least its neighbours allow (a shortest-path relaxation: weights only
+// ever fall, so it settles).
+const limitWeights = (
+  points: Point[],
+  weights: number[],
+  width: number,
+  height: number,
+  stretch: FlowStretch | null,
+  tileable: boolean
+): number[] => {
+  const limited = [...weights];
+  const spread = Math.max(...weights) - Math.min(...weights);
+  if (!(spread > 0)) {
+    return limited;
+  }
+
+  // Farther apart than this, no difference in weight can reach
+  const measure = createMeasure(width, height, stretch, tileable);
+  const reach = Math.sqrt(spread) * (stretch?.maxStretch ?? 1);
+  const getGap = (i: number, j: number): number => {
+    const [dx, dy] = measure(points[i], points[j]);
+    return WEIGHT_MARGIN * (dx * dx + dy * dy);
+  };
+  const limits = findNeighbourPairs(points, width, height, reach, tileable, (i, j) => getGap(i, j) < spread)
+    .map(([i, j]) => ({ i, j, gap: getGap(i, j) }));
+
+  for (let pass = 0; pass < points.length; pass++) {
+    let changed = false;
+    for (const { i, j, gap } of limits) {
+      if (limited[j] > limited[i] + gap) {
+        limited[j] = limited[i] + gap;
+        changed = true;
+      } else if (limited[i] > limited[j] + gap) {
+        limited[i] = limited[j] + gap;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return limited;
+};
+
+// Power diagram of the points within a convex domain, on a grid. findCell gives the
+// cell of point i as an open ring: it starts as the whole domain and is clipped by
+// neighbours found ring by ring, stopping once no farther point can reach it. locate
+// gives the point whose cell holds a position, searching outwards the same way.
+const createPowerDiagram = (points: Point[], weights: number[], domain: Polygon) => {
+  const left = Math.min(...domain.map(([x]) => x));
+  const top = Math.min(...domain.map(([, y]) => y));
+  const width = Math.max(...domain.map(([x]) => x)) - left;
+  const height = Math.max(...domain.map(([, y]) => y)) - top;
+  const gridSize = Math.sqrt(width * height / points.length);
+  const columns = Math.max(1, Math.ceil(width / gridSize));
+  const rows = Math.max(1, Math.ceil(height / gridSize));
+  const toColumn = (x: number) => Math.min(columns - 1, Math.max(0, Math.floor((x - left) / gridSize)));
+  const toRow = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor((y - top) / gridSize)));
+
+  const grid: number[][] = Array.from({ length: columns * rows }, () => []);
+  points.forEach(([x, y], i) => grid[toRow(y) * columns + toColumn(x)].push(i));
+  const maxWeight = weights.reduce((max, weight) => Math.max(max, weight), -Infinity);
+
+  const findCell = (i: number): Polygon => {
+    const [px, py] = points[i];
+    let polygon: Polygon = domain;
+    const column = toColumn(px);
+    const row = toRow(py);
+
+    for (let ring = 0; ring <= Math.max(columns, rows) && polygon.length > 0; ring++) {
+      // Points in this ring are at least (ring - 1) grid cells away, and a point at
+      // distance d can only cut a vertex at distance r if d < r + sqrt(r² + w_j - w_i)
+      let farthest = 0;
+      for (const [x, y] of polygon) {
+        farthest = Math.max(farthest, Math.hypot(x - px, y - py));
+      }
+      const reach = farthest + Math.sqrt(farthest * farthest + Math.max(0, maxWeight - weights[i]));
+      if ((ring - 1) * gridSize >= reach) {
+        break;
+      }
+
+      for (let dy = -ring; dy <= ring; dy++) {
+        for (let dx = -ring; dx <= ring; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue;
+
+          const gridColumn = column + dx;
+          const gridRow = row + dy;
+          if (gridColumn < 0 || gridColumn >= columns || gridRow < 0 || gridRow >= rows) continue;
+
+          for (const j of grid[gridRow * columns + gridColumn]) {
+            const [qx, qy] = points[j];
+            if (j === i || (qx === px && qy === py)) continue;
+
+            const c = (qx * qx + qy * qy - px * px - py * py + weights[i] - weights[j]) / 2;
+            polygon = clipPolygon(polygon, qx - px, qy - py, c);
+          }
+        }
+      }
+    }
+
+    return polygon;
+  };
+
+  const locate = ([x, y]: Point): number => {
+    const column = toColumn(x);
+    const row = toRow(y);
+    let nearest = -1;
+    let nearestPower = Infinity;
+
+    for (let ring = 0; ring <= Math.max(columns, rows); ring++) {
+      // Points in this ring are at least (ring - 1) grid cells away
+      const distance = Math.max(0, ring - 1) * gridSize;
+      if (distance * distance - maxWeight >= nearestPower) {
+        break;
+      }
+
+      for (let dy = -ring; dy <= ring; dy++) {
+        for (let dx = -ring; dx <= ring; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue;
+
+          const gridColumn = column + dx;
+          const gridRow = row + dy;
+          if (gridColumn < 0 || gridColumn >= columns || gridRow < 0 || gridRow >= rows) continue;
+
+          for (const j of grid[gridRow * columns + gridColumn]) {
+            const [qx, qy] = points[j];
+            const power = (x - qx) ** 2 + (y - qy) ** 2 - weights[j];
+            if (power < nearestPower) {
+              nearestPower = power;
+              nearest = j;
+            }
+          }
+        }
+      }
+    }
+
+    return nearest;
+  };
+
+  return { findCell, locate };
+};
+
+// Cells of the chips as drawn. On a tile the chips come back in the surrounding tiles;
+// stretched patterns are built in flow space, which keeps areas, so the weights carry
+// over unchanged. Cells come back in the space they were built in, cut to region when
+// the chips fill only part of the sheet.
+const createChipCellFinder = (
+  chips: SpacedChips,
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  region?: Bounds
+) => {
+  const stretch = getFlowStretch(pattern);
+  const bounds: Bounds = region ?? (pattern.tileable ? getTiledBounds(width, height) : [0, 0, width, height]);
+  const sites = pattern.tileable ? replicatePoints(chips.points, width, height) : chips.points;
+  const weights = sites.map((_, i) => chips.weights[i % chips.points.length]);
+  const [left, top, right, bottom] = bounds;
+  const domain: Polygon = stretch
+    ? getFlowDomain(bounds, stretch)
+    : [[left, top], [right, top], [right, bottom], [left, bottom]];
+
+  const { findCell, locate } = createPowerDiagram(stretch ? sites.map(stretch.toFlow) : sites, weights, domain);
+
+  return {
+    stretch,
+    bounds,
+    findCell,
+    // Chip whose cell holds a position on the sheet, -1 if none
+    locate: (point: Point): number => {
+      const site = locate(stretch ? stretch.toFlow(point) : point);
+      return site === -1 ? -1 : site % chips.points.length;
+    },
+  };
+};
+
+// Shoelace formula on an open ring
+const getRingArea = (ring: Polygon): number => {
+  let twiceArea = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    twiceArea += x0 * y1 - x1 * y0;
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+// Shift the weights by one offset per chip size until each size covers its share of
+// the sheet (or of region): its count × size² over the sum for all chips. Shares are
+// measured on an evenly spread sample of each size's cells. The first step assumes
+// every chip of a size gains the area its offset adds; later steps follow the slope
+// measured so far.
+const solveSizeWeights = (
+  points: Point[],
+  startWeights: number[],
+  sizes: number[],
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  region?: Bounds
+): number[] => {
+  const area = region ? (region[2] - region[0]) * (region[3] - region[1]) : width * height;
+  const stretch = getFlowStretch(pattern);
+  const sizeValues = [...new Set(sizes)];
+  const sizeIndex = new Map(sizeValues.map((size, k) => [size, k]));
+  const members = sizeValues.map(size => sizes.flatMap((value, i) => value === size ? [i] : []));
+  const samples = members.map(indices => {
+    const step = indices.length / Math.min(indices.length, AREA_SAMPLE_SIZE);
+    return Array.from({ length: Math.min(indices.length, AREA_SAMPLE_SIZE) }, (_, k) => indices[Math.floor(k * step)]);
+  });
+  const totalSquaredSize = sizes.reduce((sum, size) => sum + size * size, 0);
+  const targets = sizeValues.map((size, k) => members[k].length * size * size / totalSquaredSize);
+
+  const offsets = sizeValues.map(() => 0);
+  // Share gained per unit of weight
+  const slopes = members.map(indices => Math.PI * indices.length / area);
+  let previous: { offsets: number[]; shares: number[] } | null = null;
+  let weights = startWeights;
+
+  for (let step = 0; step < MAX_AREA_STEPS; step++) {
+    weights = limitWeights(
+      points,
+      startWeights.map((weight, i) => weight + offsets[sizeIndex.get(sizes[i])!]),
+      width,
+      height,
+      stretch,
+      pattern.tileable
+    );
+    if (step === MAX_AREA_STEPS - 1) break;
+
+    const { findCell } = createChipCellFinder({ points, weights }, width, height, pattern, region);
+    const covered = samples.map((sample, k) => {
+      const meanArea = sample.reduce((sum, i) => sum + getRingArea(findCell(i)), 0) / sample.length;
+      return meanArea * members[k].length;
+    });
+    const total = covered.reduce((sum, area) => sum + area, 0);
+    const shares = covered.map(area => area / total);
+    if (shares.every((share, k) => Math.abs(share - targets[k]) <= AREA_TOLERANCE)) break;
+
+    if (previous) {
+      const last = previous;
+      shares.forEach((share, k) => {
+        const slope = (share - last.shares[k]) / (offsets[k] - last.offsets[k]);
+        if (Number.isFinite(slope) && slope > 0) {
+          slopes[k] = slope;
+        }
+      });
+    }
+    previous = { offsets: [...offsets], shares };
+    shares.forEach((share, k) => {
+      offsets[k] += (targets[k] - share) / slopes[k];
+    });
+  }
+
+  return weights;
+};
+
+// Recent results by content, scaled to a sheet one unit wide. The preview, its hover
+// and the palette's coverage ask for the same layout, at different sizes.
+const SPACING_CACHE_SIZE = 4;
+const spacingCache = new Map<string, { unit: SpacedChips; width: number; result: SpacedChips }>();
+
+// Positions are rounded to this fraction of the width, so a layout generated at
+// another size still finds its entry
+const CACHE_KEY_PRECISION = 2 ** 20;
+
+const scaleChips = (chips: SpacedChips, factor: number): SpacedChips => ({
+  points: chips.points.map(([x, y]) => [x * factor, y * factor]),
+  weights: chips.weights.map(weight => weight * factor * factor),
+  squareCount: chips.squareCount,
+});
+
+const getSpacingKey = (
+  points: Point[],
+  sizes: number[],
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  squareCount: number
+): string => {
+  // Two independent hashes, so unrelated layouts never share a key
+  let low = 0;
+  let high = 1;
+  points.forEach(([x, y], i) => {
+    const qx = Math.round(x / width * CACHE_KEY_PRECISION);
+    const qy = Math.round(y / width * CACHE_KEY_PRECISION);
+    const qs = Math.round(sizes[i] * 1000);
+    low = hashValues(low, qx, qy, qs);
+    high = hashValues(high, qy, qs, qx);
+  });
+  return [points.length, squareCount, low, high, height / width, pattern.flowAngle, pattern.flowStretch, pattern.tileable].join('|');
+};
+
+// Disk radius per chip for chips sharing the given area
+const getDiskRadii = (sizes: number[], area: number): number[] => {
+  const totalSquaredSize = sizes.reduce((sum, size) => sum + size * size, 0);
+  return sizes.map(size => Math.sqrt(DISK_PACKING * area * size * size / totalSquaredSize / Math.PI));
+};
+
+// The part of a sheet past the preview square on its shorter side
+const getStripBounds = (width: number, height: number): Bounds => {
+  const side = Math.min(width, height);
+  return width > height ? [side, 0, width, height] : [0, side, width, height];
+};
+
+const spaceSheet = (points: Point[], sizes: number[], width: number, height: number, pattern: PatternSettings): SpacedChips => {
+  const radii = getDiskRadii(sizes, width * height);
+  const spaced = separateDisks(points, radii, width, height, getFlowStretch(pattern), pattern.tileable);
+  const weights = solveSizeWeights(spaced, radii.map(radius => radius * radius), sizes, width, height, pattern);
+  return { points: spaced, weights };
+};
+
+// A sheet longer than the preview keeps the preview square exactly as drawn there. Its
+// chips are spaced on their own, then hold their place while the strip's chips are
+// spaced around them; the strip gets a diagram of its own.
+const spaceAroundSquare = (
+  points: Point[],
+  sizes: number[],
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  squareCount: number
+): SpacedChips => {
+  const side = Math.min(width, height);
+  const square = spaceChipsBySize(points.slice(0, squareCount), sizes.slice(0, squareCount), side, side, pattern);
+  const strip = getStripBounds(width, height);
+  const stripSizes = sizes.slice(squareCount);
+  const radii = [
+    ...getDiskRadii(sizes.slice(0, squareCount), side * side),
+    ...getDiskRadii(stripSizes, (strip[2] - strip[0]) * (strip[3] - strip[1])),
+  ];
+
+  const spaced = separateDisks(
+    [...square.points, ...points.slice(squareCount)],
+    radii,
+    width,
+    height,
+    getFlowStretch(pattern),
+    false,
+    squareCount,
+    strip
+  ).slice(squareCount);
+  const stripWeights = solveSizeWeights(
+    spaced,
+    radii.slice(squareCount).map(radius => radius * radius),
+    stripSizes,
+    width,
+    height,
+    pattern,
+    strip
+  );
+
+  return { points: [...square.points, ...spaced], weights: [...square.weights, ...stripWeights], squareCount };
+};
+
+// Chip centers spaced for their sizes and the power weights for them. Each chip's
+// target area is its share of the sheet by size squared, and its disk fills
+// DISK_PACKING of that. The weights start from the squared disk radii, which make
+// touching disks meet on their common tangent. On a sheet longer than the preview, the
+// first squareCount chips are the preview's and come out as the preview spaces them.
+export const spaceChipsBySize = (
+  points: Point[],
+  sizes: number[],
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  squareCount: number = points.length
+): SpacedChips => {
+  const key = getSpacingKey(points, sizes, width, height, pattern, squareCount);
+  const cached = spacingCache.get(key);
+  if (cached) {
+    // Most recently used last
+    spacingCache.delete(key);
+    spacingCache.set(key, cached);
+    if (cached.width !== width) {
+      cached.width = width;
+      cached.result = scaleChips(cached.unit, width);
+    }
+    return cached.result;
+  }
+
+  const result = squareCount < points.length && !pattern.tileable
+    ? spaceAroundSquare(points, sizes, width, height, pattern, squareCount)
+    : spaceSheet(points, sizes, width, height, pattern);
+  spacingCache.set(key, { unit: scaleChips(result, 1 / width), width, result });
+  if (spacingCache.size > SPACING_CACHE_SIZE) {
+    spacingCache.delete(spacingCache.keys().next().value!);
+  }
+  return result;
+};
+
+// The square's chips and the strip's, each with the region its diagram covers
+const splitAtSquare = (chips: SpacedChips, width: number, height: number) => {
+  const squareCount = chips.squareCount!;
+  const side = Math.min(width, height);
+  return {
+    square: { points: chips.points.slice(0, squareCount), weights: chips.weights.slice(0, squareCount) },
+    strip: { points: chips.points.slice(squareCount), weights: chips.weights.slice(squareCount) },
+    side,
+    region: getStripBounds(width, height),
+  };
+};
+
+const hasStrip = (chips: SpacedChips): boolean => {
+  return chips.squareCount !== undefined && chips.squareCount < chips.points.length;
+};
+
+const findChipCells = (
+  chips: SpacedChips,
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  region?: Bounds
+): (Polygon | null)[] => {
+  const { stretch, bounds, findCell } = createChipCellFinder(chips, width, height, pattern, region);
+
+  return chips.points.map((_, i) => {
+    const cell = findCell(i);
+    if (stretch) {
+      return mapCellToSheet(cell, stretch, bounds);
+    }
+    return cell.length >= 3 ? [...cell, cell[0]] : null;
+  });
+};
+
+// Outline of every chip's cell, closed like d3's cellPolygon. The weight limit keeps
+// every chip inside its own cell, so none comes back empty.
+export const computeChipPowerCells = (
+  chips: SpacedChips,
+  width: number,
+  height: number,
+  pattern: PatternSettings
+): (Polygon | null)[] => {
+  if (!hasStrip(chips)) {
+    return findChipCells(chips, width, height, pattern);
+  }
+
+  const { square, strip, side, region } = splitAtSquare(chips, width, height);
+  return [
+    ...findChipCells(square, side, side, pattern),
+    ...findChipCells(strip, width, height, pattern, region),
+  ];
+};
+
+// Hover asks on every mouse move, so the diagram is kept for each set of chips
+const chipLocators = new WeakMap<SpacedChips, (point: Point) => number>();
+
+const createChipLocator = (
+  chips: SpacedChips,
+  width: number,
+  height: number,
+  pattern: PatternSettings
+): ((point: Point) => number) => {
+  if (!hasStrip(chips)) {
+    return createChipCellFinder(chips, width, height, pattern).locate;
+  }
+
+  const { square, strip, side, region } = splitAtSquare(chips, width, height);
+  const locateInSquare = createChipCellFinder(square, side, side, pattern).locate;
+  const locateInStrip = createChipCellFinder(strip, width, height, pattern, region).locate;
+  return ([x, y]: Point): number => {
+    if (x < side && y < side) {
+      return locateInSquare([x, y]);
+    }
+    const index = locateInStrip([x, y]);
+    return index === -1 ? -1 : chips.squareCount! + index;
+  };
+};
+
+// Index of the chip drawn at (x, y), matching computeChipPowerCells
+export const findChipAtPoint = (
+  chips: SpacedChips,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  pattern: PatternSettings
+): number => {
+  let locate = chipLocators.get(chips);
+  if (!locate) {
+    locate = createChipLocator(chips, width, height, pattern);
+    chipLocators.set(chips, locate);
+  }
+  return locate([x, y]);
+};
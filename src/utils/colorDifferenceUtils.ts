@@ -0,0 +1,132 @@
+// Perceptual color difference utilities
+// Converts through CIE XYZ into CIELAB and measures distance with CIEDE2000
+
+import { XYZColor, D65_WHITE_POINT, srgbToXyz } from './lightingUtils';
+import { hexToRgb } from './colorUtils';
+
+// CIELAB color (L in 0-100, a/b roughly -128 to 127)
+export interface LabColor {
+  L: number;
+  a: number;
+  b: number;
+}
+
+// Rough guide to reading ΔE2000 values
+export const DELTA_E_THRESHOLDS = {
+  imperceptible: 1,   // Not noticeable to the human eye
+  close: 3,           // Noticeable only on close inspection
+  distinct: 6         // Clearly a different color at a glance
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+// Convert XYZ to CIELAB relative to a reference white (D65 by default)
+export function xyzToLab(xyz: XYZColor, whitePoint: XYZColor = D65_WHITE_POINT): LabColor {
+  const epsilon = 216 / 24389;  // (6/29)^3
+  const kappa = 24389 / 27;     // (29/3)^3
+
+  const f = (t: number): number => {
+    return t > epsilon ? Math.cbrt(t) : (kappa * t + 16) / 116;
+  };
+
+  const fx = f(xyz.X / whitePoint.X);
+  const fy = f(xyz.Y / whitePoint.Y);
+  const fz = f(xyz.Z / whitePoint.Z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+}
+
+// Convert a hex color straight to CIELAB
+export function hexToLab(hex: string): LabColor {
+  const { r, g, b } = hexToRgb(hex);
+  return xyzToLab(srgbToXyz(r / 255, g / 255, b / 255));
+}
+
+// Hue angle in degrees [0, 360), treating achromatic colors as hue 0
+function hueAngle(a: number, b: number): number {
+  if (a === 0 && b === 0) {
+    return 0;
+  }
+  const hue = toDegrees(Math.atan2(b, a));
+  return hue >= 0 ? hue : hue + 360;
+}
+
+// CIEDE2000 color difference (Sharma, Wu & Dalal 2005)
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const pow25To7 = Math.pow(25, 7);
+
+  // 1. Adjust a* for the chroma-dependent G factor
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const cBar7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + pow25To7)));
+
+  const a1Prime = (1 + g) * lab1.a;
+  const a2Prime = (1 + g) * lab2.a;
+  const c1Prime = Math.sqrt(a1Prime * a1Prime + lab1.b * lab1.b);
+  const c2Prime = Math.sqrt(a2Prime * a2Prime + lab2.b * lab2.b);
+  const h1Prime = hueAngle(a1Prime, lab1.b);
+  const h2Prime = hueAngle(a2Prime, lab2.b);
+
+  // 2. Differences in lightness, chroma and hue
+  const deltaLPrime = lab2.L - lab1.L;
+  const deltaCPrime = c2Prime - c1Prime;
+
+  let deltahPrime = 0;
+  if (c1Prime * c2Prime !== 0) {
+    deltahPrime = h2Prime - h1Prime;
+    if (deltahPrime > 180) {
+      deltahPrime -= 360;
+    } else if (deltahPrime < -180) {
+      deltahPrime += 360;
+    }
+  }
+  const deltaHPrime = 2 * Math.sqrt(c1Prime * c2Prime) * Math.sin(toRadians(deltahPrime / 2));
+
+  // 3. Means used by the weighting functions
+  const lBarPrime = (lab1.L + lab2.L) / 2;
+  const cBarPrime = (c1Prime + c2Prime) / 2;
+
+  let hBarPrime = h1Prime + h2Prime;
+  if (c1Prime * c2Prime !== 0) {
+    if (Math.abs(h1Prime - h2Prime) <= 180) {
+      hBarPrime = (h1Prime + h2Prime) / 2;
+    } else if (h1Prime + h2Prime < 360) {
+      hBarPrime = (h1Prime + h2Prime + 360) / 2;
+    } else {
+      hBarPrime = (h1Prime + h2Prime - 360) / 2;
+    }
+  }
+
+  // 4. Weighting functions and rotation term
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hBarPrime - 30))
+    + 0.24 * Math.cos(toRadians(2 * hBarPrime))
+    + 0.32 * Math.cos(toRadians(3 * hBarPrime + 6))
+    - 0.20 * Math.cos(toRadians(4 * hBarPrime - 63));
+
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBarPrime - 275) / 25, 2));
+  const cBarPrime7 = Math.pow(cBarPrime, 7);
+  const rC = 2 * Math.sqrt(cBarPrime7 / (cBarPrime7 + pow25To7));
+  const lOffset = Math.pow(lBarPrime - 50, 2);
+  const sL = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sC = 1 + 0.045 * cBarPrime;
+  const sH = 1 + 0.015 * cBarPrime * t;
+  const rT = -Math.sin(toRadians(2 * deltaTheta)) * rC;
+
+  const lTerm = deltaLPrime / sL;
+  const cTerm = deltaCPrime / sC;
+  const hTerm = deltaHPrime / sH;
+
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rT * cTerm * hTerm);
+}
+
+// Convenience wrapper for comparing two hex colors
+export function hexDeltaE(hex1: string, hex2: string): number {
+  return deltaE2000(hexToLab(hex1), hexToLab(hex2));
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { Color } from '../types';
+import {
+  calculateColorProbability,
+  calculateTotalDensity,
+  getQuotaColorSequence,
+  getQuotaCounts,
+  getSeededColorSequence,
+} from './colorUtils';
+
+const palette = (densities: number[]): Color[] => {
+  return densities.map((density, index) => ({ id: `c${index}`, hex: '#000000', density }));
+};
+
+const realizedShares = (colors: Color[], count: number, seed: number): number[] => {
+  const tallies = new Map(colors.map(color => [color.id, 0]));
+  getSeededColorSequence(colors, count, seed).forEach(color => {
+    tallies.set(color.id, (tallies.get(color.id) ?? 0) + 1);
+  });
+  return colors.map(color => (tallies.get(color.id) ?? 0) / count);
+};
+
+// Each cell is an independent draw, so a color's count is binomial(count, p). Four
+// standard deviations keeps a false failure below one in ten thousand per check.
+const expectBinomialShares = (colors: Color[], count: number, seed: number) => {
+  const totalDensity = calculateTotalDensity(colors);
+  const shares = realizedShares(colors, count, seed);
+
+  colors.forEach((color, index) => {
+    const p = calculateColorProbability(color, totalDensity, colors.length);
+    const tolerance = 4 * Math.sqrt(p * (1 - p) / count);
+    expect(Math.abs(shares[index] - p)).toBeLessThanOrEqual(tolerance);
+  });
+};
+
+const SEEDS = [0, 1, 42, 12345, 271828, 999999];
+
+describe('getSeededColorSequence', () => {
+  it('converges to calculateColorProbability for equal densities', () => {
+    SEEDS.forEach(seed => expectBinomialShares(palette([1, 1, 1, 1]), 20000, seed));
+  });
+
+  it('converges to calculateColorProbability for uneven densities', () => {
+    SEEDS.forEach(seed => expectBinomialShares(palette([5, 2.5, 1, 0.5, 0.1]), 50000, seed));
+  });
+
+  it('converges to equal shares when every density is zero', () => {
+    SEEDS.forEach(seed => expectBinomialShares(palette([0, 0, 0]), 10000, seed));
+  });
+
+  it('never draws a zero-density color beside others', () => {
+    SEEDS.forEach(seed => {
+      const shares = realizedShares(palette([1, 0, 2]), 10000, seed);
+      expect(shares[1]).toBe(0);
+    });
+  });
+
+  it('tightens around the target as the sheet grows, pooled over seeds', () => {
+    const colors = palette([3, 1]);
+    const p = calculateColorProbability(colors[0], calculateTotalDensity(colors), colors.length);
+    const count = 100000;
+    const pooled = SEEDS.reduce((sum, seed) => sum + realizedShares(colors, count, seed)[0], 0) / SEEDS.length;
+    expect(Math.abs(pooled - p)).toBeLessThanOrEqual(4 * Math.sqrt(p * (1 - p) / (count * SEEDS.length)));
+  });
+
+  it('gives cell i the same color whatever the length of the run', () => {
+    const colors = palette([2, 1, 1]);
+    const short = getSeededColorSequence(colors, 500, 9);
+    const long = getSeededColorSequence(colors, 5000, 9);
+    expect(long.slice(0, 500)).toEqual(short);
+  });
+});
+
+// Cells of each color in a run, in palette order
+const tally = (colors: Color[], sequence: Color[]): number[] => {
+  return colors.map(color => sequence.filter(cell => cell.id === color.id).length);
+};
+
+const QUOTA_PALETTES = [[1, 1, 1], [5, 2.5, 1, 0.5, 0.1], [3, 0, 1], [0, 0]];
+const QUOTA_COUNTS = [1, 7, 100, 1001];
+
+describe('getQuotaCounts', () => {
+  it('adds up to count', () => {
+    QUOTA_PALETTES.forEach(densities => {
+      QUOTA_COUNTS.forEach(count => {
+        const counts = getQuotaCounts(palette(densities), count);
+        expect(counts.reduce((sum, value) => sum + value, 0)).toBe(count);
+      });
+    });
+  });
+
+  it('keeps each count within one cell of its target', () => {
+    QUOTA_PALETTES.forEach(densities => {
+      const colors = palette(densities);
+      const totalDensity = calculateTotalDensity(colors);
+      QUOTA_COUNTS.forEach(count => {
+        getQuotaCounts(colors, count).forEach((value, index) => {
+          const target = calculateColorProbability(colors[index], totalDensity, colors.length) * count;
+          expect(Math.abs(value - target)).toBeLessThan(1);
+        });
+      });
+    });
+  });
+
+  it('gives a zero-density color no cells beside others', () => {
+    QUOTA_COUNTS.forEach(count => {
+      expect(getQuotaCounts(palette([3, 0, 1]), count)[1]).toBe(0);
+    });
+  });
+});
+
+describe('getQuotaColorSequence', () => {
+  it('holds the quota in every block', () => {
+    const colors = palette([5, 2.5, 1, 0.5, 0.1]);
+    const blockSize = 250;
+    SEEDS.forEach(seed => {
+      const sequence = getQuotaColorSequence(colors, 1100, seed, blockSize);
+      expect(sequence).toHaveLength(1100);
+      for (let start = 0; start < sequence.length; start += blockSize) {
+        const block = sequence.slice(start, start + blockSize);
+        expect(tally(colors, block)).toEqual(getQuotaCounts(colors, block.length));
+      }
+    });
+  });
+
+  it('keeps the first block as the run grows', () => {
+    const colors = palette([2, 1, 1]);
+    SEEDS.forEach(seed => {
+      const preview = getQuotaColorSequence(colors, 500, seed);
+      const sheet = getQuotaColorSequence(colors, 2250, seed, 500);
+      expect(sheet.slice(0, 500)).toEqual(preview);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { Color } from '../types';
+import { RANDOM_STREAMS, RandomSource, createSeededRandom } from './randomUtils';
 
 export const generateColorId = (): string => {
   return Math.random().toString(36).substr(2, 9);
@@ -21,7 +22,46 @@ export const normalizeDensity = (densityInput: string): number => {
   return density;
 };
 
-export const createColor = (hex: string, density: number = 1): Color => {
+// Chip size relative to the sheet's base chip size set by the scale control
+export const DEFAULT_CHIP_SIZE = 1;
+export const MIN_CHIP_SIZE = 0.25;
+export const MAX_CHIP_SIZE = 4;
+
+// Size grades offered in the palette; any size in range is accepted from files and links
+export const CHIP_SIZE_GRADES: { size: number; label: string }[] = [
+  { size: 0.5, label: 'Fine' },
+  { size: 1, label: 'Standard' },
+  { size: 1.5, label: 'Coarse' },
+  { size: 2, label: 'Extra coarse' },
+  { size: 3, label: 'Flakes' },
+];
+
+export const isValidChipSize = (size: unknown): size is number => {
+  return typeof size === 'number' && isFinite(size) && size >= MIN_CHIP_SIZE && size <= MAX_CHIP_SIZE;
+};
+
+export const getChipSize = (color: Color): number => {
+  return color.chipSize ?? DEFAULT_CHIP_SIZE;
+};
+
+export const hasUniformChipSize = (colors: Color[]): boolean => {
+  return colors.every(color => getChipSize(color) === getChipSize(colors[0]));
+};
+
+// Colors weighted for drawing chips rather than covering surface: density is a share
+// of the surface, so coarser colors get proportionally fewer chips
+export const getChipDrawColors = (colors: Color[]): Color[] => {
+  return hasUniformChipSize(colors)
+    ? colors
+    : colors.map(color => ({ ...color, density: color.density / getChipSize(color) ** 2 }));
+};
+
+export const formatChipSize = (size: number): string => {
+  const grade = CHIP_SIZE_GRADES.find(entry => entry.size === size);
+  return grade ? `${grade.label} (×${size})` : `×${size}`;
+};
+
+export const createColor = (hex: string, density: number = 1, code?: string): Color => {
   if (!isValidHexColor(hex)) {
     throw new Error('Invalid hex color format');
   }
@@ -34,6 +74,7 @@ export const createColor = (hex: string, density: number = 1): Color => {
     id: generateColorId(),
     hex: hex.toUpperCase(),
     density,
+    ...(code ? { code } : {}),
   };
 };
 
@@ -48,7 +89,7 @@ export const calculateColorProbability = (color: Color, totalDensity: number, co
   return color.density / totalDensity;
 };
 
-export const getWeightedRandomColor = (colors: Color[]): Color => {
+export const getWeightedRandomColor = (colors: Color[], random: RandomSource = Math.random): Color => {
   if (colors.length === 0) {
     throw new Error('Cannot select from empty color array');
   }
@@ -61,18 +102,18 @@ export const getWeightedRandomColor = (colors: Color[]): Color => {
   
   // If all densities are 0, fall back to equal probability
   if (totalDensity === 0) {
-    const randomIndex = Math.floor(Math.random() * colors.length);
+    const randomIndex = Math.floor(random() * colors.length);
     return colors[randomIndex];
   }
   
   // Generate random number between 0 and totalDensity
-  const randomValue = Math.random() * totalDensity;
+  const randomValue = random() * totalDensity;
   
   // Find the color using cumulative probability
   let cumulativeDensity = 0;
   for (const color of colors) {
     cumulativeDensity += color.density;
-    if (randomValue <= cumulativeDensity) {
+    if (randomValue < cumulativeDensity) {
       return color;
     }
   }
@@ -226,46 +267,57 @@ export const hsbToHex = (h: number, s: number, b: number): string => {
   return rgbToHex(r, g, blue);
 };
 
-// Simple Linear Congruential Generator for consistent seeded randomness
-const createSeededRandom = (seed: number): (() => number) => {
-  let current = seed;
-  return () => {
-    current = (current * 1664525 + 1013904223) % 4294967296;
-    return current / 4294967296;
-  };
+// Colors for a run of cells, drawn in order from one seeded stream so the realized
+// shares converge to calculateColorProbability. Cell i gets the same color whatever
+// the length of the run, so the preview and larger exports agree.
+export const getSeededColorSequence = (colors: Color[], count: number, seed: number): Color[] => {
+  const random = createSeededRandom(seed, RANDOM_STREAMS.colors);
+  return Array.from({ length: count }, () => getWeightedRandomColor(colors, random));
 };
 
-// Get random color using seeded randomness for consistent results
-export const getSeededRandomColor = (colors: Color[], seed: number): Color => {
+// Whole cell counts per color that add up to count, each within one cell of
+// density × count (largest remainder method)
+export const getQuotaCounts = (colors: Color[], count: number): number[] => {
+  const totalDensity = calculateTotalDensity(colors);
+  const targets = colors.map(color => calculateColorProbability(color, totalDensity, colors.length) * count);
+  const counts = targets.map(Math.floor);
+
+  let remaining = count - counts.reduce((sum, value) => sum + value, 0);
+  const byRemainder = targets
+    .map((target, index) => ({ index, remainder: target - counts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; remaining > 0 && i < byRemainder.length; i++, remaining--) {
+    counts[byRemainder[i].index] += 1;
+  }
+
+  return counts;
+};
+
+// Colors for a run of cells where every block of blockSize cells holds exactly its
+// quota of each color, shuffled with the seeded stream. The first block is the
+// on-screen preview, so larger exports keep the preview's cells unchanged.
+export const getQuotaColorSequence = (colors: Color[], count: number, seed: number, blockSize: number = count): Color[] => {
   if (colors.length === 0) {
     throw new Error('Cannot select from empty color array');
   }
-  
-  if (colors.length === 1) {
-    return colors[0];
-  }
-  
-  const random = createSeededRandom(seed);
-  const totalDensity = calculateTotalDensity(colors);
-  
-  // If all densities are 0, fall back to equal probability
-  if (totalDensity === 0) {
-    const randomIndex = Math.floor(random() * colors.length);
-    return colors[randomIndex];
-  }
-  
-  // Generate random number between 0 and totalDensity
-  const randomValue = random() * totalDensity;
-  
-  // Find the color using cumulative probability
-  let cumulativeDensity = 0;
-  for (const color of colors) {
-    cumulativeDensity += color.density;
-    if (randomValue <= cumulativeDensity) {
-      return color;
+
+  const random = createSeededRandom(seed, RANDOM_STREAMS.colors);
+  const sequence: Color[] = [];
+  const size = Math.max(1, Math.floor(blockSize));
+
+  while (sequence.length < count) {
+    const blockCount = Math.min(size, count - sequence.length);
+    const block = getQuotaCounts(colors, blockCount).flatMap((quota, index) => Array(quota).fill(colors[index]));
+
+    // Fisher-Yates shuffle
+    for (let i = block.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [block[i], block[j]] = [block[j], block[i]];
     }
+
+    sequence.push(...block);
   }
-  
-  // Fallback to last color (should not happen with proper implementation)
-  return colors[colors.length - 1];
-};
\ No newline at end of file
+
+  return sequence;
+};
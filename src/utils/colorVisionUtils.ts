@@ -0,0 +1,99 @@
+// Color vision deficiency simulation, applied after lighting to the colors as displayed
+
+import { Color } from '../types';
+import { hexToRgb, rgbToHex } from './colorUtils';
+import { linearToSrgb, srgbToLinear } from './lightingUtils';
+
+export type ColorVisionMode = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export interface VisionSimulation {
+  mode: ColorVisionMode;
+  severity: number;  // 0 (normal vision) to 1 (complete deficiency)
+}
+
+export const NORMAL_VISION: VisionSimulation = { mode: 'none', severity: 1 };
+
+export const COLOR_VISION_MODES: { id: ColorVisionMode; name: string; description: string }[] = [
+  { id: 'none', name: 'Normal vision', description: 'No simulation' },
+  { id: 'protanopia', name: 'Protanopia', description: 'Missing or weak red cones' },
+  { id: 'deuteranopia', name: 'Deuteranopia', description: 'Missing or weak green cones, the most common form' },
+  { id: 'tritanopia', name: 'Tritanopia', description: 'Missing or weak blue cones' },
+  { id: 'achromatopsia', name: 'Achromatopsia', description: 'No color perception, brightness only' },
+];
+
+type Matrix3 = [number, number, number][];
+
+// Complete dichromacy in linear RGB (Machado, Oliveira & Fernandes 2009)
+const DICHROMACY_MATRICES: Record<'protanopia' | 'deuteranopia' | 'tritanopia', Matrix3> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.011820, 0.042940, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.303900],
+  ],
+};
+
+// Rec. 709 luminance weights, matching the sRGB primaries
+const LUMINANCE_MATRIX: Matrix3 = [
+  [0.2126, 0.7152, 0.0722],
+  [0.2126, 0.7152, 0.0722],
+  [0.2126, 0.7152, 0.0722],
+];
+
+export const isVisionSimulated = (simulation?: VisionSimulation): simulation is VisionSimulation => {
+  return !!simulation && simulation.mode !== 'none' && simulation.severity > 0;
+};
+
+// Partial deficiencies are blended linearly between normal vision and the full matrix
+const getSimulationMatrix = ({ mode, severity }: VisionSimulation): Matrix3 => {
+  const full = mode === 'achromatopsia' ? LUMINANCE_MATRIX : DICHROMACY_MATRICES[mode as keyof typeof DICHROMACY_MATRICES];
+  const amount = Math.max(0, Math.min(1, severity));
+
+  return full.map((row, i) =>
+    row.map((value, j) => (i === j ? 1 - amount : 0) + value * amount)
+  ) as Matrix3;
+};
+
+export const simulateColorVision = (hex: string, simulation: VisionSimulation): string => {
+  if (!isVisionSimulated(simulation)) {
+    return hex;
+  }
+
+  const { r, g, b } = hexToRgb(hex);
+  const linear = [r, g, b].map(channel => srgbToLinear(channel / 255));
+  const matrix = getSimulationMatrix(simulation);
+
+  const [rOut, gOut, bOut] = matrix.map(row => {
+    const value = row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2];
+    return Math.round(linearToSrgb(Math.max(0, Math.min(1, value))) * 255);
+  });
+
+  return rgbToHex(rOut, gOut, bOut);
+};
+
+// Apply a simulation to every color in a palette (no-op for normal vision)
+export const applyVisionSimulationToColors = (colors: Color[], simulation?: VisionSimulation): Color[] => {
+  if (!isVisionSimulated(simulation)) {
+    return colors;
+  }
+
+  return colors.map(color => ({ ...color, hex: simulateColorVision(color.hex, simulation) }));
+};
+
+export const formatVisionSimulation = (simulation?: VisionSimulation): string => {
+  if (!isVisionSimulated(simulation)) {
+    return 'Normal vision';
+  }
+
+  const name = COLOR_VISION_MODES.find(mode => mode.id === simulation.mode)?.name ?? simulation.mode;
+  return simulation.severity < 1 ? `${name} (${Math.round(simulation.severity * 100)}%)` : name;
+};
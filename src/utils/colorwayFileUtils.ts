@@ -0,0 +1,356 @@
+// Versioned .colorway.json documents
+// See "Colorway File Format" in README.md for the schema
+
+import { Color, ColorwayState, PatternSettings } from '../types';
+import { MAX_CHIP_SIZE, MIN_CHIP_SIZE, createColor, isValidChipSize, isValidHexColor, isValidDensity } from './colorUtils';
+import { isValidCatalogCode } from './catalogUtils';
+import { LIGHT_SOURCES, isValidLightId } from './lightingUtils';
+import { SPECTRAL_WAVELENGTHS, isValidReflectance } from './spectralUtils';
+import { decodeColorsFromURL } from './urlUtils';
+import {
+  ASSIGNMENT_MODES,
+  CHIP_SHAPES,
+  CLUSTER_KERNELS,
+  DEFAULT_PATTERN,
+  NumericPatternSetting,
+  PATTERN_RANGES,
+  POINT_DISTRIBUTIONS,
+  isValidAssignmentMode,
+  isValidChipShape,
+  isValidClusterKernel,
+  isValidPatternSetting,
+  isValidPointDistribution,
+  normalizePattern,
+} from './patternUtils';
+import { generateRandomSeed, isValidSeed } from './voronoiUtils';
+
+export const COLORWAY_FILE_FORMAT = 'colorway';
+export const COLORWAY_FILE_VERSION = 2;
+export const COLORWAY_FILE_EXTENSION = '.colorway.json';
+
+export interface ColorwayFileMetadata {
+  name?: string;
+  createdAt?: string;     // ISO 8601
+  modifiedAt?: string;    // ISO 8601
+  generator?: string;
+}
+
+interface ColorwayFileColor {
+  hex: string;
+  density: number;
+  name?: string;
+  code?: string;
+  reflectance?: number[];
+  chipSize?: number;
+}
+
+// Version 2 document, as written to disk
+export interface ColorwayFileV2 {
+  format: typeof COLORWAY_FILE_FORMAT;
+  version: 2;
+  metadata: ColorwayFileMetadata;
+  colors: ColorwayFileColor[];
+  scale: number;
+  lighting: string;
+  seed: number;
+  pattern: PatternSettings;
+}
+
+export type ColorwayFileResult =
+  | { ok: true; state: ColorwayState; metadata: ColorwayFileMetadata; migratedFrom?: string }
+  | { ok: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'nothing';
+  const json = JSON.stringify(value);
+  return json && json.length > 40 ? `${json.slice(0, 37)}...` : String(json);
+};
+
+export const serializeColorway = (state: ColorwayState, metadata: ColorwayFileMetadata = {}): string => {
+  const now = new Date().toISOString();
+  // Parsed files carry undefined for missing fields, which must not replace the defaults
+  const givenMetadata = Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as ColorwayFileMetadata;
+  const document: ColorwayFileV2 = {
+    format: COLORWAY_FILE_FORMAT,
+    version: COLORWAY_FILE_VERSION,
+    metadata: {
+      createdAt: now,
+      ...givenMetadata,
+      modifiedAt: now,
+      generator: 'colorway-designer',
+    },
+    colors: state.colors.map(({ hex, density, name, code, reflectance, chipSize }) => ({
+      hex,
+      density,
+      ...(name ? { name } : {}),
+      ...(code ? { code } : {}),
+      ...(reflectance ? { reflectance } : {}),
+      ...(chipSize !== undefined ? { chipSize } : {}),
+    })),
+    scale: state.scale,
+    lighting: state.lightingId,
+    seed: state.seed,
+    pattern: state.pattern,
+  };
+
+  return JSON.stringify(document, null, 2);
+};
+
+// Migrations: each step upgrades a document by one version.
+// Version 0 is the unversioned shape used by share links: { colors, scale, lighting }
+// where colors are { hex, density, size? } entries (the base64 "colors" URL parameter).
+// Version 1 had no pattern settings; those sheets used random color draws.
+const migrations: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (document) => ({
+    format: COLORWAY_FILE_FORMAT,
+    version: 1,
+    metadata: {},
+    // Links abbreviate the chip size
+    colors: Array.isArray(document.colors)
+      ? document.colors.map(color => {
+        if (!isObject(color) || color.size === undefined) return color;
+        const { size, ...rest } = color;
+        return { ...rest, chipSize: size };
+      })
+      : document.colors,
+    scale: document.scale ?? 1.0,
+    lighting: document.lighting ?? 'natural',
+    seed: document.seed ?? generateRandomSeed(),
+    // Share links carry pattern settings as their own parameters
+    ...(document.pattern ? { pattern: document.pattern } : {}),
+  }),
+  1: (document) => ({
+    ...document,
+    version: 2,
+    pattern: document.pattern ?? DEFAULT_PATTERN,
+  }),
+};
+
+const upgrade = (document: Record<string, unknown>, fromVersion: number): Record<string, unknown> => {
+  let upgraded = document;
+  for (let version = fromVersion; version < COLORWAY_FILE_VERSION; version++) {
+    upgraded = migrations[version](upgraded);
+  }
+  return upgraded;
+};
+
+// Bring any supported input up to the current version, or explain why not
+const migrateToCurrent = (input: unknown): { document: Record<string, unknown>; migratedFrom?: string } | { errors: string[] } => {
+  // Legacy share link or bare query string
+  if (typeof input === 'string') {
+    const trimmed = input.trim();
+    const url = /^https?:\/\//.test(trimmed) ? trimmed : `https://localhost/?${trimmed.replace(/^\?/, '')}`;
+    const urlState = decodeColorsFromURL(url);
+    if (!urlState || urlState.colors.length === 0) {
+      return { errors: ['Text is neither a colorway document nor a share link with colors'] };
+    }
+    return {
+      document: upgrade({
+        colors: urlState.colors.map(({ hex, density, code, chipSize }) => ({
+          hex,
+          density,
+          ...(code ? { code } : {}),
+          ...(chipSize !== undefined ? { size: chipSize } : {}),
+        })),
+        scale: urlState.scale,
+        lighting: urlState.lightingId,
+        seed: urlState.seed,
+        pattern: urlState.pattern,
+      }, 0),
+      migratedFrom: 'share link',
+    };
+  }
+
+  // Decoded "colors" URL parameter: a bare array of { hex, density, size? }
+  if (Array.isArray(input)) {
+    return { document: upgrade({ colors: input }, 0), migratedFrom: 'legacy color list' };
+  }
+
+  if (!isObject(input)) {
+    return { errors: [`Expected a colorway document object, got ${describe(input)}`] };
+  }
+
+  if (input.format !== undefined && input.format !== COLORWAY_FILE_FORMAT) {
+    return { errors: [`format: expected "${COLORWAY_FILE_FORMAT}", got ${describe(input.format)}`] };
+  }
+
+  const version = input.version === undefined ? 0 : input.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { errors: [`version: expected a whole number, got ${describe(input.version)}`] };
+  }
+  if (version > COLORWAY_FILE_VERSION) {
+    return { errors: [`version: file is version ${version}, but this app only reads up to version ${COLORWAY_FILE_VERSION}. Please update the app.`] };
+  }
+
+  return {
+    document: upgrade(input, version),
+    migratedFrom: version < COLORWAY_FILE_VERSION ? `version ${version}` : undefined,
+  };
+};
+
+const validateColor = (value: unknown, path: string, errors: string[]): Color | null => {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object with hex and density, got ${describe(value)}`);
+    return null;
+  }
+
+  const startErrors = errors.length;
+  const { hex, density, name, code, reflectance, chipSize } = value;
+
+  if (typeof hex !== 'string' || !isValidHexColor(hex)) {
+    errors.push(`${path}.hex: expected a hex color like "#FF8800", got ${describe(hex)}`);
+  }
+  if (typeof density !== 'number' || !isValidDensity(density)) {
+    errors.push(`${path}.density: expected a non-negative number, got ${describe(density)}`);
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    errors.push(`${path}.name: expected text, got ${describe(name)}`);
+  }
+  if (code !== undefined && (typeof code !== 'string' || !isValidCatalogCode(code))) {
+    errors.push(`${path}.code: expected a Pantone code like "Q722-3-3", got ${describe(code)}`);
+  }
+
+  if (reflectance !== undefined && !isValidReflectance(reflectance)) {
+    errors.push(`${path}.reflectance: expected ${SPECTRAL_WAVELENGTHS.length} values from 0 to 1 (380nm to 780nm every 10nm), got ${describe(reflectance)}`);
+  }
+  if (chipSize !== undefined && !isValidChipSize(chipSize)) {
+    errors.push(`${path}.chipSize: expected a number from ${MIN_CHIP_SIZE} to ${MAX_CHIP_SIZE}, got ${describe(chipSize)}`);
+  }
+
+  if (errors.length > startErrors) {
+    return null;
+  }
+
+  const color = createColor(hex as string, density as number, code as string | undefined);
+  return {
+    ...color,
+    ...(name ? { name: name as string } : {}),
+    ...(reflectance ? { reflectance: reflectance as number[] } : {}),
+    ...(chipSize !== undefined ? { chipSize: chipSize as number } : {}),
+  };
+};
+
+// Fields missing from the pattern object take their defaults
+const validatePattern = (value: unknown, errors: string[]): PatternSettings => {
+  if (!isObject(value)) {
+    errors.push(`pattern: expected an object, got ${describe(value)}`);
+    return DEFAULT_PATTERN;
+  }
+
+  const startErrors = errors.length;
+  const pattern = { ...DEFAULT_PATTERN, ...value };
+  const listIds = (entries: { id: string }[]) => entries.map(entry => `"${entry.id}"`).join(', ');
+
+  if (!isValidAssignmentMode(pattern.assignment)) {
+    errors.push(`pattern.assignment: expected ${ASSIGNMENT_MODES.map(mode => `"${mode.id}"`).join(' or ')}, got ${describe(pattern.assignment)}`);
+  }
+  if (!isValidPointDistribution(pattern.distribution)) {
+    errors.push(`pattern.distribution: expected one of ${listIds(POINT_DISTRIBUTIONS)}, got ${describe(pattern.distribution)}`);
+  }
+  if (!isValidClusterKernel(pattern.clusterKernel)) {
+    errors.push(`pattern.clusterKernel: expected one of ${listIds(CLUSTER_KERNELS)}, got ${describe(pattern.clusterKernel)}`);
+  }
+  if (!isValidChipShape(pattern.shape)) {
+    errors.push(`pattern.shape: expected one of ${listIds(CHIP_SHAPES)}, got ${describe(pattern.shape)}`);
+  }
+  if (typeof pattern.tileable !== 'boolean') {
+    errors.push(`pattern.tileable: expected true or false, got ${describe(pattern.tileable)}`);
+  }
+  if (typeof pattern.matrixColor !== 'string' || !isValidHexColor(pattern.matrixColor)) {
+    errors.push(`pattern.matrixColor: expected a hex color like "#E6E1D6", got ${describe(pattern.matrixColor)}`);
+  }
+  for (const setting of Object.keys(PATTERN_RANGES) as NumericPatternSetting[]) {
+    if (!isValidPatternSetting(setting, pattern[setting])) {
+      const { min, max } = PATTERN_RANGES[setting];
+      errors.push(`pattern.${setting}: expected a number from ${min} to ${max}, got ${describe(pattern[setting])}`);
+    }
+  }
+
+  return errors.length > startErrors ? DEFAULT_PATTERN : normalizePattern(pattern);
+};
+
+const validateCurrentDocument = (document: Record<string, unknown>): ColorwayFileResult => {
+  const errors: string[] = [];
+  const colors: Color[] = [];
+
+  if (!Array.isArray(document.colors)) {
+    errors.push(`colors: expected a list of colors, got ${describe(document.colors)}`);
+  } else {
+    if (document.colors.length > 10) {
+      errors.push(`colors: at most 10 colors are supported, got ${document.colors.length}`);
+    }
+    document.colors.forEach((value, index) => {
+      const color = validateColor(value, `colors[${index}]`, errors);
+      if (color) colors.push(color);
+    });
+  }
+
+  const { scale, lighting, seed } = document;
+  if (typeof scale !== 'number' || scale < 0.1 || scale > 4.0) {
+    errors.push(`scale: expected a number from 0.1 to 4.0, got ${describe(scale)}`);
+  }
+
+  if (typeof lighting !== 'string' || !isValidLightId(lighting)) {
+    const builtInIds = ['natural', ...LIGHT_SOURCES.map(light => light.id)];
+    errors.push(`lighting: expected one of ${builtInIds.map(id => `"${id}"`).join(', ')} or a custom light id like "cct-3000", got ${describe(lighting)}`);
+  }
+
+  if (typeof seed !== 'number' || !isValidSeed(seed)) {
+    errors.push(`seed: expected a whole number from 0 to 999999, got ${describe(seed)}`);
+  }
+
+  const pattern = validatePattern(document.pattern, errors);
+
+  const metadata = isObject(document.metadata) ? document.metadata : {};
+  const readMetadata = (key: keyof ColorwayFileMetadata): string | undefined => {
+    return typeof metadata[key] === 'string' ? metadata[key] as string : undefined;
+  };
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    state: {
+      colors,
+      scale: scale as number,
+      lightingId: lighting as string,
+      seed: seed as number,
+      pattern,
+    },
+    metadata: {
+      name: readMetadata('name'),
+      createdAt: readMetadata('createdAt'),
+      modifiedAt: readMetadata('modifiedAt'),
+      generator: readMetadata('generator'),
+    },
+  };
+};
+
+// Parse file contents (JSON document, legacy color list, or share link)
+export const parseColorwayFile = (text: string): ColorwayFileResult => {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch {
+    // Not JSON; it may be a pasted share link
+    input = text;
+  }
+
+  const migrated = migrateToCurrent(input);
+  if ('errors' in migrated) {
+    return { ok: false, errors: migrated.errors };
+  }
+
+  const result = validateCurrentDocument(migrated.document);
+  return result.ok && migrated.migratedFrom
+    ? { ...result, migratedFrom: migrated.migratedFrom }
+    : result;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Color } from '../types';
+import { DEFAULT_PATTERN } from './patternUtils';
+import { diffRecipes } from './compareUtils';
+
+const palette = (hexes: string[]): Color[] => {
+  return hexes.map((hex, index) => ({ id: `c${index}`, hex, density: 1 }));
+};
+
+describe('diffRecipes', () => {
+  it('splits the sheet between chips when there is no matrix', () => {
+    const rows = diffRecipes([{ colors: palette(['#FF0000', '#00FF00']), pattern: DEFAULT_PATTERN }]);
+    expect(rows.map(row => row.shares[0])).toEqual([50, 50]);
+  });
+
+  it('scales chips by their coverage and adds the matrix', () => {
+    const rows = diffRecipes([
+      { colors: palette(['#FF0000', '#00FF00']), pattern: DEFAULT_PATTERN },
+      { colors: palette(['#FF0000', '#00FF00']), pattern: { ...DEFAULT_PATTERN, coverage: 0.6 } },
+    ]);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].shares[1]).toBeCloseTo(30);
+    expect(rows[1].shares[1]).toBeCloseTo(30);
+    expect(rows[2]).toMatchObject({ label: 'Matrix', hex: DEFAULT_PATTERN.matrixColor });
+    expect(rows[2].shares[0]).toBeNull();
+    expect(rows[2].shares[1]).toBeCloseTo(40);
+  });
+
+  it('gives each matrix color its own row', () => {
+    const rows = diffRecipes([
+      { colors: palette(['#FF0000']), pattern: { ...DEFAULT_PATTERN, coverage: 0.5 } },
+      { colors: palette(['#FF0000']), pattern: { ...DEFAULT_PATTERN, coverage: 0.5, matrixColor: '#202020' } },
+    ]);
+
+    expect(rows.map(row => row.shares)).toEqual([[50, 50], [50, null], [null, 50]]);
+  });
+});
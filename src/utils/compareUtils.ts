@@ -0,0 +1,92 @@
+// Side-by-side comparison of colorway variants
+
+import { Color, ColorwayState } from '../types';
+import { calculateColorProbability, calculateTotalDensity, generateColorId } from './colorUtils';
+import { getChipCoverage, showsMatrix } from './chipShapeUtils';
+
+// The main design is always the first panel, so 1-3 variants sit beside it
+export const MAX_COMPARE_PANELS = 4;
+export const MAX_COMPARE_VARIANTS = MAX_COMPARE_PANELS - 1;
+
+const VARIANT_LABELS = ['B', 'C', 'D'];
+
+export interface CompareVariant {
+  id: string;
+  name: string;
+  state: ColorwayState;
+}
+
+export interface RecipeDiffRow {
+  key: string;
+  hex: string;
+  code?: string;
+  label?: string;  // Shown instead of the code or hex, for the matrix
+  // Percentage of the sheet for each panel, null when the color is absent
+  shares: (number | null)[];
+}
+
+export const createVariant = (state: ColorwayState, existing: CompareVariant[]): CompareVariant => {
+  const usedNames = new Set(existing.map(variant => variant.name));
+  const label = VARIANT_LABELS.find(candidate => !usedNames.has(`Variant ${candidate}`)) ?? `${existing.length + 1}`;
+
+  return {
+    id: generateColorId(),
+    name: `Variant ${label}`,
+    // Fresh color ids so edits to the copy never match the main palette by id
+    state: { ...state, colors: state.colors.map(color => ({ ...color, id: generateColorId() })) },
+  };
+};
+
+// Shared settings come from the main design, everything else from the variant
+export const resolveVariantState = (
+  variant: ColorwayState,
+  main: ColorwayState,
+  shareSeed: boolean,
+  shareLighting: boolean
+): ColorwayState => ({
+  ...variant,
+  seed: shareSeed ? main.seed : variant.seed,
+  lightingId: shareLighting ? main.lightingId : variant.lightingId,
+});
+
+// Chips are the same pigment when they share a catalog code, otherwise when they share a hex
+const getRecipeKey = (color: Color): string => {
+  return color.code ? `code:${color.code.toUpperCase()}` : `hex:${color.hex.toUpperCase()}`;
+};
+
+// Shares are of the whole sheet, like the palette and spec sheet: chips split what the
+// matrix leaves them. The matrix follows the chips, a row per matrix color.
+export const diffRecipes = (recipes: Pick<ColorwayState, 'colors' | 'pattern'>[]): RecipeDiffRow[] => {
+  const rows = new Map<string, RecipeDiffRow>();
+  const matrixRows = new Map<string, RecipeDiffRow>();
+
+  recipes.forEach(({ colors, pattern }, panelIndex) => {
+    const totalDensity = calculateTotalDensity(colors);
+    const chipCoverage = showsMatrix(pattern) ? getChipCoverage(pattern) : 1;
+
+    for (const color of colors) {
+      const key = getRecipeKey(color);
+      let row = rows.get(key);
+      if (!row) {
+        row = { key, hex: color.hex, code: color.code, shares: recipes.map(() => null) };
+        rows.set(key, row);
+      }
+
+      // Duplicate entries of one pigment add up
+      const share = calculateColorProbability(color, totalDensity, colors.length) * chipCoverage * 100;
+      row.shares[panelIndex] = (row.shares[panelIndex] ?? 0) + share;
+    }
+
+    if (chipCoverage < 1) {
+      const key = `matrix:${pattern.matrixColor.toUpperCase()}`;
+      let matrixRow = matrixRows.get(key);
+      if (!matrixRow) {
+        matrixRow = { key, hex: pattern.matrixColor, label: 'Matrix', shares: recipes.map(() => null) };
+        matrixRows.set(key, matrixRow);
+      }
+      matrixRow.shares[panelIndex] = (1 - chipCoverage) * 100;
+    }
+  });
+
+  return [...rows.values(), ...matrixRows.values()];
+};
@@ -0,0 +1,148 @@
+// Off-screen rendering and file export for the plastic sheet preview
+
+import { Color, PatternSettings } from '../types';
+import { LightSource, LightingModel, applyLightingToColors } from './lightingUtils';
+import { VisionSimulation, applyVisionSimulationToColors } from './colorVisionUtils';
+import { transformMatrixColor } from './patternUtils';
+import { renderVoronoiToCanvas, renderVoronoiToSVG, generateSheetPoints, scaleToCellCount } from './voronoiUtils';
+
+// Everything that determines how the sheet looks, independent of output size
+export interface SheetRenderOptions {
+  colors: Color[];
+  scale: number;
+  seed: number;
+  pattern?: PatternSettings;
+  lightSource?: LightSource;
+  lightingModel?: LightingModel;
+  visionSimulation?: VisionSimulation;
+  isolatedColorId?: string | null;
+}
+
+// Browser canvas limits (Chrome/Firefox); Safari is stricter on area but
+// fails gracefully by returning an empty canvas
+export const MAX_CANVAS_DIMENSION = 16384;
+export const MAX_CANVAS_AREA = 268435456;
+
+const MM_PER_INCH = 25.4;
+
+// Convert a physical length to pixels at the given resolution
+export const mmToPixels = (mm: number, dpi: number): number => {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+};
+
+// Returns a readable error if the requested size can't be rendered, otherwise null
+export const validateExportSize = (width: number, height: number): string | null => {
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width < 1 || height < 1) {
+    return 'Width and height must be at least 1 pixel';
+  }
+
+  if (width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION) {
+    return `Each side must be at most ${MAX_CANVAS_DIMENSION} pixels (requested ${width}×${height})`;
+  }
+
+  if (width * height > MAX_CANVAS_AREA) {
+    return `Image is too large (${(width * height / 1e6).toFixed(0)} megapixels); reduce the size or DPI`;
+  }
+
+  return null;
+};
+
+// Render the sheet to a new off-screen canvas at the given pixel size.
+// Uses the same seed, cell count, lighting, vision simulation and isolation as the on-screen preview.
+// cellCount is the number of chips in the square on the shorter side; callers that
+// know the sheet's physical size may pass their own.
+export const renderSheetToCanvas = (
+  options: SheetRenderOptions,
+  width: number,
+  height: number,
+  cellCount: number = scaleToCellCount(options.scale)
+): HTMLCanvasElement => {
+  const { colors, seed, pattern, lightSource, lightingModel, visionSimulation, isolatedColorId } = options;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const points = generateSheetPoints(cellCount, width, height, seed, pattern);
+  const litColors = applyVisionSimulationToColors(applyLightingToColors(colors, lightSource, lightingModel), visionSimulation);
+  const litPattern = pattern && transformMatrixColor(pattern, matrix =>
+    applyVisionSimulationToColors(applyLightingToColors(matrix, lightSource, lightingModel), visionSimulation)
+  );
+
+  renderVoronoiToCanvas(canvas, points, litColors, cellCount, seed, isolatedColorId, litPattern);
+
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png'): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode image; the canvas may be too large for this browser'));
+      }
+    }, type);
+  });
+};
+
+// Trigger a browser download for the given data
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const buildExportFilename = (
+  seed: number,
+  width: number,
+  height: number,
+  extension: string,
+  unit: string = ''
+): string => {
+  return `colorway-${seed}-${width}x${height}${unit}.${extension}`;
+};
+
+export const exportSheetAsPNG = async (
+  options: SheetRenderOptions,
+  width: number,
+  height: number
+): Promise<void> => {
+  const sizeError = validateExportSize(width, height);
+  if (sizeError) {
+    throw new Error(sizeError);
+  }
+
+  const canvas = renderSheetToCanvas(options, width, height);
+  const blob = await canvasToBlob(canvas);
+  downloadBlob(blob, buildExportFilename(options.seed, width, height, 'png'));
+};
+
+// Export the pattern as vector artwork. The SVG carries the palette colors as
+// specified (no lighting or vision simulation, no isolation dimming) since it is meant for
+// production and recoloring; sizes may be given in pixels or millimetres.
+export const exportSheetAsSVG = (
+  options: SheetRenderOptions,
+  width: number,
+  height: number,
+  unit: 'px' | 'mm' = 'px'
+): void => {
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) {
+    throw new Error('Width and height must be greater than zero');
+  }
+
+  const { colors, scale, seed, pattern } = options;
+  const cellCount = scaleToCellCount(scale);
+  const points = generateSheetPoints(cellCount, width, height, seed, pattern);
+  const svg = renderVoronoiToSVG(points, colors, width, height, seed, unit, pattern, cellCount);
+
+  const blob = new Blob([svg], { type: 'image/svg+xml' });
+  downloadBlob(blob, buildExportFilename(seed, width, height, 'svg', unit));
+};
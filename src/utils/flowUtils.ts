@@ -0,0 +1,127 @@
+// Flow anisotropy: hot-pressed and extruded sheets stretch the whole chip pattern along
+// the flow direction. The stretch is an area-preserving affine map, so chips keep their
+// size; layouts and diagrams are built in "flow space", where chips are round, and
+// mapped back onto the sheet.
+
+import { Delaunay } from 'd3-delaunay';
+import { PatternSettings } from '../types';
+
+type Point = [number, number];
+type Polygon = Point[];
+
+// Area a diagram is built over: [left, top, right, bottom] on the sheet
+export type Bounds = [number, number, number, number];
+
+export interface FlowStretch {
+  toSheet: (point: Point) => Point;
+  toFlow: (point: Point) => Point;
+  maxStretch: number;  // Most a distance can grow going from flow space to the sheet
+}
+
+// Linear map: along the flow by sqrt(ratio), across it by 1 / sqrt(ratio). Null when
+// the pattern is not stretched, so callers can keep the plain Euclidean path.
+export const getFlowStretch = (pattern: PatternSettings): FlowStretch | null => {
+  if (!(pattern.flowStretch > 1)) {
+    return null;
+  }
+
+  const angle = pattern.flowAngle * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const along = Math.sqrt(pattern.flowStretch);
+
+  const scale = (alongScale: number, acrossScale: number) => ([x, y]: Point): Point => {
+    const u = (x * cos + y * sin) * alongScale;
+    const v = (-x * sin + y * cos) * acrossScale;
+    return [u * cos - v * sin, u * sin + v * cos];
+  };
+
+  return {
+    toSheet: scale(along, 1 / along),
+    toFlow: scale(1 / along, along),
+    maxStretch: along,
+  };
+};
+
+// Keep the part of a convex polygon where nx * x + ny * y <= c
+export const clipPolygon = (polygon: Polygon, nx: number, ny: number, c: number): Polygon => {
+  const result: Polygon = [];
+
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    const next = polygon[(i + 1) % polygon.length];
+    const currentSide = nx * current[0] + ny * current[1] - c;
+    const nextSide = nx * next[0] + ny * next[1] - c;
+
+    if (currentSide <= 0) {
+      result.push(current);
+    }
+    if ((currentSide < 0 && nextSide > 0) || (currentSide > 0 && nextSide < 0)) {
+      const t = currentSide / (currentSide - nextSide);
+      result.push([current[0] + t * (next[0] - current[0]), current[1] + t * (next[1] - current[1])]);
+    }
+  }
+
+  return result;
+};
+
+// The bounds in flow space: an open ring with positive shoelace area, as the
+// rectangle's corners are and the map keeps orientation
+export const getFlowDomain = ([left, top, right, bottom]: Bounds, stretch: FlowStretch): Polygon => {
+  return ([[left, top], [right, top], [right, bottom], [left, bottom]] as Polygon).map(stretch.toFlow);
+};
+
+// Keep the part of a polygon inside a convex domain from getFlowDomain
+export const clipToDomain = (polygon: Polygon, domain: Polygon): Polygon => {
+  return domain.reduce((clipped, [ax, ay], i) => {
+    const [bx, by] = domain[(i + 1) % domain.length];
+    const nx = by - ay;
+    const ny = ax - bx;
+    return clipped.length > 0 ? clipPolygon(clipped, nx, ny, nx * ax + ny * ay) : clipped;
+  }, polygon);
+};
+
+// Back onto the sheet, closed like d3's cellPolygon. Clamping drops the rounding the
+// round trip adds, so border edges stay exactly on the bounds.
+export const mapCellToSheet = (cell: Polygon, stretch: FlowStretch, [left, top, right, bottom]: Bounds): Polygon | null => {
+  if (cell.length < 3) {
+    return null;
+  }
+
+  const ring = cell.map(point => {
+    const [x, y] = stretch.toSheet(point);
+    return [Math.min(Math.max(x, left), right), Math.min(Math.max(y, top), bottom)] as Point;
+  });
+  return [...ring, ring[0]];
+};
+
+// Voronoi cells of the first count points under the flow metric, clipped to the bounds
+// and closed like d3's cellPolygon. Unstretched patterns give exactly d3's diagram.
+export const computeFlowVoronoi = (
+  points: Point[],
+  bounds: Bounds,
+  stretch: FlowStretch | null,
+  count: number = points.length
+): (Polygon | null)[] => {
+  const cells: (Polygon | null)[] = [];
+
+  if (!stretch) {
+    const voronoi = Delaunay.from(points).voronoi(bounds);
+    for (let i = 0; i < count; i++) {
+      cells.push(voronoi.cellPolygon(i) as Polygon | null);
+    }
+    return cells;
+  }
+
+  const domain = getFlowDomain(bounds, stretch);
+  const xs = domain.map(([x]) => x);
+  const ys = domain.map(([, y]) => y);
+  const voronoi = Delaunay.from(points.map(stretch.toFlow))
+    .voronoi([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]);
+
+  for (let i = 0; i < count; i++) {
+    const cell = voronoi.cellPolygon(i) as Polygon | null;
+    cells.push(cell ? mapCellToSheet(clipToDomain(cell.slice(0, -1), domain), stretch, bounds) : null);
+  }
+  return cells;
+};
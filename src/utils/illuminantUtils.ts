@@ -0,0 +1,296 @@
+// User-defined illuminants: white points from color temperature, chromaticity or XYZ
+//
+// A custom light's id fully describes its white point (e.g. "cct-3000", "xy-0.3457-0.3585"),
+// so share links, colorway files and the transform cache only ever need the id.
+// Names given by the user are kept locally alongside the id.
+
+import type { LightSource, XYZColor } from './lightingUtils';
+import { blackbodySpd, daylightSpd } from './spectralUtils';
+
+export type ChromaticityLocus = 'planckian' | 'daylight';
+
+export type LightDefinition =
+  | { kind: 'cct'; kelvin: number; locus: ChromaticityLocus }
+  | { kind: 'xy'; x: number; y: number }
+  | { kind: 'xyz'; whitePoint: XYZColor }
+  | { kind: 'standard'; illuminant: string };
+
+export interface StandardIlluminant {
+  id: string;
+  name: string;
+  description: string;
+  x: number;
+  y: number;
+  colorTemperature: number;
+  spectralProfile: LightSource['spectralProfile'];
+}
+
+// Custom light as stored in the browser: the id carries the definition
+export interface StoredCustomLight {
+  id: string;
+  name: string;
+}
+
+// Valid ranges of the locus approximations below
+export const CCT_RANGES: Record<ChromaticityLocus, { min: number; max: number }> = {
+  planckian: { min: 1667, max: 25000 },
+  daylight: { min: 4000, max: 25000 },
+};
+
+// CIE 1931 2° chromaticities of the standard illuminants
+export const CIE_STANDARD_ILLUMINANTS: StandardIlluminant[] = [
+  { id: 'a', name: 'CIE A', description: 'Tungsten filament', x: 0.44757, y: 0.40745, colorTemperature: 2856, spectralProfile: 'continuous' },
+  { id: 'd50', name: 'CIE D50', description: 'Horizon daylight, print viewing booths', x: 0.34567, y: 0.35850, colorTemperature: 5003, spectralProfile: 'continuous' },
+  { id: 'd55', name: 'CIE D55', description: 'Mid-morning daylight', x: 0.33242, y: 0.34743, colorTemperature: 5503, spectralProfile: 'continuous' },
+  { id: 'd65', name: 'CIE D65', description: 'Noon daylight', x: 0.31271, y: 0.32902, colorTemperature: 6504, spectralProfile: 'continuous' },
+  { id: 'd75', name: 'CIE D75', description: 'North sky daylight', x: 0.29902, y: 0.31485, colorTemperature: 7504, spectralProfile: 'continuous' },
+  { id: 'f1', name: 'CIE F1', description: 'Daylight fluorescent', x: 0.31310, y: 0.33727, colorTemperature: 6430, spectralProfile: 'mixed' },
+  { id: 'f2', name: 'CIE F2', description: 'Cool white fluorescent', x: 0.37208, y: 0.37529, colorTemperature: 4230, spectralProfile: 'mixed' },
+  { id: 'f3', name: 'CIE F3', description: 'White fluorescent', x: 0.40910, y: 0.39430, colorTemperature: 3450, spectralProfile: 'mixed' },
+  { id: 'f4', name: 'CIE F4', description: 'Warm white fluorescent', x: 0.44018, y: 0.40329, colorTemperature: 2940, spectralProfile: 'mixed' },
+  { id: 'f5', name: 'CIE F5', description: 'Daylight fluorescent', x: 0.31379, y: 0.34531, colorTemperature: 6350, spectralProfile: 'mixed' },
+  { id: 'f6', name: 'CIE F6', description: 'Lite white fluorescent', x: 0.37790, y: 0.38835, colorTemperature: 4150, spectralProfile: 'mixed' },
+  { id: 'f7', name: 'CIE F7', description: 'Broadband daylight fluorescent', x: 0.31292, y: 0.32933, colorTemperature: 6500, spectralProfile: 'mixed' },
+  { id: 'f8', name: 'CIE F8', description: 'Broadband D50 simulator', x: 0.34588, y: 0.35875, colorTemperature: 5000, spectralProfile: 'mixed' },
+  { id: 'f9', name: 'CIE F9', description: 'Broadband cool white deluxe', x: 0.37417, y: 0.37281, colorTemperature: 4150, spectralProfile: 'mixed' },
+  { id: 'f10', name: 'CIE F10', description: 'Narrow tri-band 5000K', x: 0.34609, y: 0.35986, colorTemperature: 5000, spectralProfile: 'mixed' },
+  { id: 'f11', name: 'CIE F11', description: 'Narrow tri-band 4000K, retail and office', x: 0.38052, y: 0.37713, colorTemperature: 4000, spectralProfile: 'mixed' },
+  { id: 'f12', name: 'CIE F12', description: 'Narrow tri-band 3000K', x: 0.43695, y: 0.40441, colorTemperature: 3000, spectralProfile: 'mixed' },
+];
+
+const CUSTOM_LIGHTS_STORAGE_KEY = 'colorway-designer-custom-lights';
+
+// Chromaticity on the Planckian locus (Kim et al. cubic spline, 1667K-25000K)
+const planckianChromaticity = (kelvin: number): { x: number; y: number } => {
+  const t = kelvin;
+  const x = t <= 4000
+    ? -0.2661239e9 / t ** 3 - 0.2343589e6 / t ** 2 + 0.8776956e3 / t + 0.179910
+    : -3.0258469e9 / t ** 3 + 2.1070379e6 / t ** 2 + 0.2226347e3 / t + 0.240390;
+
+  let y: number;
+  if (t <= 2222) {
+    y = -1.1063814 * x ** 3 - 1.34811020 * x ** 2 + 2.18555832 * x - 0.20219683;
+  } else if (t <= 4000) {
+    y = -0.9549476 * x ** 3 - 1.37418593 * x ** 2 + 2.09137015 * x - 0.16748867;
+  } else {
+    y = 3.0817580 * x ** 3 - 5.87338670 * x ** 2 + 3.75112997 * x - 0.37001483;
+  }
+
+  return { x, y };
+};
+
+// Chromaticity on the CIE daylight locus (4000K-25000K)
+const daylightChromaticity = (kelvin: number): { x: number; y: number } => {
+  const t = kelvin;
+  const x = t <= 7000
+    ? -4.6070e9 / t ** 3 + 2.9678e6 / t ** 2 + 0.09911e3 / t + 0.244063
+    : -2.0064e9 / t ** 3 + 1.9018e6 / t ** 2 + 0.24748e3 / t + 0.237040;
+  const y = -3.000 * x ** 2 + 2.870 * x - 0.275;
+
+  return { x, y };
+};
+
+// A is a blackbody and the D series lie on the daylight locus; F-series spectra are
+// left to be estimated from their color temperature
+const getStandardIlluminantSpd = (illuminant: StandardIlluminant): number[] | undefined => {
+  if (illuminant.id === 'a') {
+    return blackbodySpd(illuminant.colorTemperature);
+  }
+  if (illuminant.id.startsWith('d')) {
+    return daylightSpd(illuminant.x, illuminant.y);
+  }
+  return undefined;
+};
+
+export const cctToChromaticity = (kelvin: number, locus: ChromaticityLocus = 'planckian'): { x: number; y: number } => {
+  const { min, max } = CCT_RANGES[locus];
+  if (!Number.isFinite(kelvin) || kelvin < min || kelvin > max) {
+    throw new Error(`Color temperature must be between ${min}K and ${max}K for the ${locus} locus`);
+  }
+  return locus === 'daylight' ? daylightChromaticity(kelvin) : planckianChromaticity(kelvin);
+};
+
+// Approximate correlated color temperature from chromaticity (McCamy)
+export const estimateCct = (x: number, y: number): number => {
+  const n = (x - 0.3320) / (0.1858 - y);
+  return 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+};
+
+export const isValidChromaticity = (x: number, y: number): boolean => {
+  return Number.isFinite(x) && Number.isFinite(y) && x > 0 && y > 0 && x + y < 1;
+};
+
+// White point with luminance Y = 100, matching D65_WHITE_POINT
+export const xyToWhitePoint = (x: number, y: number): XYZColor => {
+  if (!isValidChromaticity(x, y)) {
+    throw new Error('Chromaticity must satisfy x > 0, y > 0 and x + y < 1');
+  }
+  return { X: (x / y) * 100, Y: 100, Z: ((1 - x - y) / y) * 100 };
+};
+
+const normalizeWhitePoint = ({ X, Y, Z }: XYZColor): XYZColor => {
+  if (![X, Y, Z].every(value => Number.isFinite(value) && value >= 0) || Y === 0) {
+    throw new Error('White point needs non-negative X, Y, Z with Y greater than 0');
+  }
+  return { X: (X / Y) * 100, Y: 100, Z: (Z / Y) * 100 };
+};
+
+const formatNumber = (value: number, digits: number): string => {
+  return Number(value.toFixed(digits)).toString();
+};
+
+export const createLightId = (definition: LightDefinition): string => {
+  switch (definition.kind) {
+    case 'cct':
+      return `${definition.locus === 'daylight' ? 'daylight' : 'cct'}-${Math.round(definition.kelvin)}`;
+    case 'xy':
+      return `xy-${formatNumber(definition.x, 4)}-${formatNumber(definition.y, 4)}`;
+    case 'xyz': {
+      const { X, Y, Z } = definition.whitePoint;
+      return `xyz-${formatNumber(X, 2)}-${formatNumber(Y, 2)}-${formatNumber(Z, 2)}`;
+    }
+    case 'standard':
+      return `cie-${definition.illuminant.toLowerCase()}`;
+  }
+};
+
+const NUMBER_PATTERN = '(\\d+(?:\\.\\d+)?)';
+const CCT_ID_PATTERN = /^(cct|daylight)-(\d+)$/;
+const XY_ID_PATTERN = new RegExp(`^xy-${NUMBER_PATTERN}-${NUMBER_PATTERN}$`);
+const XYZ_ID_PATTERN = new RegExp(`^xyz-${NUMBER_PATTERN}-${NUMBER_PATTERN}-${NUMBER_PATTERN}$`);
+const STANDARD_ID_PATTERN = /^cie-([a-z0-9]+)$/;
+
+export const parseLightDefinition = (id: string): LightDefinition | undefined => {
+  let match = id.match(CCT_ID_PATTERN);
+  if (match) {
+    return { kind: 'cct', kelvin: parseInt(match[2], 10), locus: match[1] === 'daylight' ? 'daylight' : 'planckian' };
+  }
+
+  match = id.match(XY_ID_PATTERN);
+  if (match) {
+    return { kind: 'xy', x: parseFloat(match[1]), y: parseFloat(match[2]) };
+  }
+
+  match = id.match(XYZ_ID_PATTERN);
+  if (match) {
+    return { kind: 'xyz', whitePoint: { X: parseFloat(match[1]), Y: parseFloat(match[2]), Z: parseFloat(match[3]) } };
+  }
+
+  match = id.match(STANDARD_ID_PATTERN);
+  if (match) {
+    return { kind: 'standard', illuminant: match[1] };
+  }
+
+  return undefined;
+};
+
+// Build a light source from a definition; throws with a readable message when out of range
+export const createCustomLightSource = (inputDefinition: LightDefinition, name?: string): LightSource => {
+  const id = createLightId(inputDefinition);
+  // Use the values as rounded into the id, so a light always matches its share link
+  const definition = parseLightDefinition(id) ?? inputDefinition;
+
+  switch (definition.kind) {
+    case 'cct': {
+      const kelvin = Math.round(definition.kelvin);
+      const { x, y } = cctToChromaticity(kelvin, definition.locus);
+      const locusName = definition.locus === 'daylight' ? 'Daylight' : 'Blackbody';
+      return {
+        id,
+        name: name || `${locusName} ${kelvin}K`,
+        description: `${locusName} locus at ${kelvin}K (x ${formatNumber(x, 4)}, y ${formatNumber(y, 4)})`,
+        whitePoint: xyToWhitePoint(x, y),
+        colorTemperature: kelvin,
+        spectralProfile: 'continuous',
+        spectralPowerDistribution: definition.locus === 'daylight' ? daylightSpd(x, y) : blackbodySpd(kelvin),
+      };
+    }
+    case 'xy': {
+      const { x, y } = definition;
+      return {
+        id,
+        name: name || `Custom (x ${formatNumber(x, 4)}, y ${formatNumber(y, 4)})`,
+        description: `White point at chromaticity x ${formatNumber(x, 4)}, y ${formatNumber(y, 4)}`,
+        whitePoint: xyToWhitePoint(x, y),
+        colorTemperature: Math.round(estimateCct(x, y)),
+        spectralProfile: 'continuous',
+      };
+    }
+    case 'xyz': {
+      const whitePoint = normalizeWhitePoint(definition.whitePoint);
+      const sum = whitePoint.X + whitePoint.Y + whitePoint.Z;
+      const { X, Y, Z } = definition.whitePoint;
+      return {
+        id,
+        name: name || `Custom XYZ (${formatNumber(X, 2)}, ${formatNumber(Y, 2)}, ${formatNumber(Z, 2)})`,
+        description: `White point at XYZ ${formatNumber(X, 2)}, ${formatNumber(Y, 2)}, ${formatNumber(Z, 2)}`,
+        whitePoint,
+        colorTemperature: Math.round(estimateCct(whitePoint.X / sum, whitePoint.Y / sum)),
+        spectralProfile: 'continuous',
+      };
+    }
+    case 'standard': {
+      const illuminant = CIE_STANDARD_ILLUMINANTS.find(entry => entry.id === definition.illuminant.toLowerCase());
+      if (!illuminant) {
+        throw new Error(`Unknown CIE standard illuminant "${definition.illuminant}"`);
+      }
+      return {
+        id,
+        name: name || illuminant.name,
+        description: `${illuminant.name} - ${illuminant.description} (${illuminant.colorTemperature}K)`,
+        whitePoint: xyToWhitePoint(illuminant.x, illuminant.y),
+        colorTemperature: illuminant.colorTemperature,
+        spectralProfile: illuminant.spectralProfile,
+        spectralPowerDistribution: getStandardIlluminantSpd(illuminant),
+      };
+    }
+  }
+};
+
+// Rebuild a custom light from its id, or undefined if the id is not a valid definition
+export const parseCustomLightId = (id: string, name?: string): LightSource | undefined => {
+  const definition = parseLightDefinition(id);
+  if (!definition) {
+    return undefined;
+  }
+
+  try {
+    return createCustomLightSource(definition, name);
+  } catch {
+    return undefined;
+  }
+};
+
+export const loadCustomLights = (): StoredCustomLight[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_LIGHTS_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      console.warn('Ignoring malformed custom lights in localStorage');
+      return [];
+    }
+
+    return parsed.filter((entry): entry is StoredCustomLight =>
+      typeof entry === 'object' &&
+      entry !== null &&
+      typeof entry.id === 'string' &&
+      typeof entry.name === 'string' &&
+      parseCustomLightId(entry.id) !== undefined
+    );
+  } catch (error) {
+    console.error('Error loading custom lights:', error);
+    return [];
+  }
+};
+
+export const saveCustomLights = (lights: StoredCustomLight[]): void => {
+  try {
+    localStorage.setItem(CUSTOM_LIGHTS_STORAGE_KEY, JSON.stringify(lights));
+  } catch (error) {
+    console.error('Error saving custom lights:', error);
+  }
+};
@@ -0,0 +1,155 @@
+// Saved colorway library, persisted in localStorage
+
+import { Color, ColorwayState } from '../types';
+import { isValidChipSize, isValidHexColor, isValidDensity } from './colorUtils';
+import { findLightSource } from './lightingUtils';
+import { renderSheetToCanvas } from './exportUtils';
+import { isValidSeed } from './voronoiUtils';
+import { normalizePattern } from './patternUtils';
+import { isValidReflectance } from './spectralUtils';
+
+export interface SavedColorway {
+  id: string;
+  name: string;
+  state: ColorwayState;
+  thumbnail: string;      // JPEG data URL
+  createdAt: number;      // Unix time in milliseconds
+  modifiedAt: number;
+}
+
+const LIBRARY_STORAGE_KEY = 'colorway-designer-library';
+const THUMBNAIL_SIZE = 128;
+
+const generateEntryId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+};
+
+// Render a small preview image for the library list
+export const renderThumbnail = (state: ColorwayState): string => {
+  try {
+    const canvas = renderSheetToCanvas(
+      {
+        colors: state.colors,
+        scale: state.scale,
+        seed: state.seed,
+        pattern: state.pattern,
+        lightSource: findLightSource(state.lightingId),
+      },
+      THUMBNAIL_SIZE,
+      THUMBNAIL_SIZE
+    );
+    // JPEG keeps entries small enough for localStorage quotas
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.error('Error rendering library thumbnail:', error);
+    return '';
+  }
+};
+
+export const createLibraryEntry = (name: string, state: ColorwayState): SavedColorway => {
+  const now = Date.now();
+  return {
+    id: generateEntryId(),
+    name: name.trim() || 'Untitled colorway',
+    state,
+    thumbnail: renderThumbnail(state),
+    createdAt: now,
+    modifiedAt: now,
+  };
+};
+
+const isValidStoredColor = (color: unknown): color is Color => {
+  const candidate = color as Color;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.hex === 'string' &&
+    isValidHexColor(candidate.hex) &&
+    isValidDensity(candidate.density) &&
+    (candidate.code === undefined || typeof candidate.code === 'string') &&
+    (candidate.chipSize === undefined || isValidChipSize(candidate.chipSize)) &&
+    (candidate.reflectance === undefined || isValidReflectance(candidate.reflectance))
+  );
+};
+
+const isValidStoredEntry = (entry: unknown): entry is SavedColorway => {
+  const candidate = entry as SavedColorway;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.thumbnail === 'string' &&
+    typeof candidate.createdAt === 'number' &&
+    typeof candidate.modifiedAt === 'number' &&
+    typeof candidate.state === 'object' &&
+    candidate.state !== null &&
+    Array.isArray(candidate.state.colors) &&
+    candidate.state.colors.every(isValidStoredColor) &&
+    typeof candidate.state.scale === 'number' &&
+    typeof candidate.state.lightingId === 'string' &&
+    isValidSeed(candidate.state.seed)
+  );
+};
+
+export const loadLibrary = (): SavedColorway[] => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      console.warn('Ignoring malformed colorway library in localStorage');
+      return [];
+    }
+
+    // Drop individual corrupt entries rather than losing the whole library.
+    // Entries saved before pattern settings existed get the defaults.
+    return parsed
+      .filter(isValidStoredEntry)
+      .map(entry => ({ ...entry, state: { ...entry.state, pattern: normalizePattern(entry.state.pattern) } }));
+  } catch (error) {
+    console.error('Error loading colorway library:', error);
+    return [];
+  }
+};
+
+// Throws if the browser refuses to store the library (usually a full quota)
+export const saveLibrary = (entries: SavedColorway[]): void => {
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving colorway library:', error);
+    throw new Error('Could not save the library; browser storage may be full. Delete some colorways and try again.');
+  }
+};
+
+export const searchLibrary = (entries: SavedColorway[], query: string): SavedColorway[] => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return entries;
+  }
+
+  // Match names as well as the hex values and catalog codes in each palette
+  return entries.filter(entry =>
+    entry.name.toLowerCase().includes(normalized) ||
+    entry.state.colors.some(color =>
+      color.hex.toLowerCase().includes(normalized) ||
+      (color.code?.toLowerCase().includes(normalized) ?? false)
+    )
+  );
+};
+
+export const duplicateLibraryEntry = (entry: SavedColorway): SavedColorway => {
+  const now = Date.now();
+  return {
+    ...entry,
+    id: generateEntryId(),
+    name: `${entry.name} (copy)`,
+    createdAt: now,
+    modifiedAt: now,
+  };
+};
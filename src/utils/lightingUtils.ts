@@ -1,6 +1,16 @@
 // Color science utilities for lighting visualization
 // Implements CIE color space conversions and chromatic adaptation
 
+import { Color } from '../types';
+import { cctToChromaticity, parseCustomLightId } from './illuminantUtils';
+import {
+  blackbodySpd,
+  daylightSpd,
+  emissionBandsSpd,
+  estimateReflectance,
+  spectrumToXyz,
+} from './spectralUtils';
+
 // XYZ color space (CIE 1931) - device-independent intermediate
 export interface XYZColor {
   X: number;
@@ -17,10 +27,15 @@ export interface LightSource {
   colorTemperature?: number;    // Kelvin (for thermal sources)
   spectralProfile: 'continuous' | 'narrow' | 'mixed';
   transformMatrix?: number[][];  // 3x3 matrix for direct RGB transforms
+  spectralPowerDistribution?: number[];  // Relative power at SPECTRAL_WAVELENGTHS, for spectral mode
 }
 
+// How lights are applied: chromatic adaptation of the sRGB color, or integration of an
+// estimated reflectance curve against the light's spectrum
+export type LightingModel = 'adaptation' | 'spectral';
+
 // sRGB to linear RGB conversion (remove gamma correction)
-function srgbToLinear(value: number): number {
+export function srgbToLinear(value: number): number {
   if (value <= 0.04045) {
     return value / 12.92;
   }
@@ -28,7 +43,7 @@ function srgbToLinear(value: number): number {
 }
 
 // Linear RGB to sRGB conversion (apply gamma correction)
-function linearToSrgb(value: number): number {
+export function linearToSrgb(value: number): number {
   if (value <= 0.0031308) {
     return value * 12.92;
   }
@@ -210,7 +225,8 @@ export const LIGHT_SOURCES: LightSource[] = [
     description: 'Warm tungsten bulb (2856K) - traditional indoor lighting',
     whitePoint: { X: 109.85, Y: 100.0, Z: 35.585 },
     colorTemperature: 2856,
-    spectralProfile: 'continuous'
+    spectralProfile: 'continuous',
+    spectralPowerDistribution: blackbodySpd(2856)
   },
   {
     id: 'fluorescent-f2',
@@ -218,7 +234,16 @@ export const LIGHT_SOURCES: LightSource[] = [
     description: 'Cool white fluorescent (4230K) - office lighting',
     whitePoint: { X: 99.19, Y: 100.0, Z: 67.39 },
     colorTemperature: 4230,
-    spectralProfile: 'mixed'
+    spectralProfile: 'mixed',
+    // Modelled halophosphate phosphor bands plus mercury lines
+    spectralPowerDistribution: emissionBandsSpd([
+      { peak: 600, width: 50, power: 1 },
+      { peak: 480, width: 35, power: 0.7 },
+      { peak: 405, width: 5, power: 0.15 },
+      { peak: 436, width: 5, power: 0.4 },
+      { peak: 546, width: 5, power: 0.5 },
+      { peak: 578, width: 5, power: 0.2 }
+    ])
   },
   {
     id: 'led-5000k',
@@ -226,7 +251,12 @@ export const LIGHT_SOURCES: LightSource[] = [
     description: 'Modern LED bulb (5000K) - energy-efficient lighting',
     whitePoint: { X: 96.42, Y: 100.0, Z: 82.51 },
     colorTemperature: 5000,
-    spectralProfile: 'mixed'
+    spectralProfile: 'mixed',
+    // Modelled blue pump LED plus broad yellow phosphor
+    spectralPowerDistribution: emissionBandsSpd([
+      { peak: 450, width: 10, power: 1.1 },
+      { peak: 570, width: 70, power: 1 }
+    ])
   },
   {
     id: 'red-660nm',
@@ -238,10 +268,36 @@ export const LIGHT_SOURCES: LightSource[] = [
       [0.8, 0.0, 0.0],   // Heavy red emphasis
       [0.3, 0.1, 0.0],   // Minimal green response  
       [0.0, 0.0, 0.05]   // Almost no blue
-    ]
+    ],
+    spectralPowerDistribution: emissionBandsSpd([{ peak: 660, width: 10, power: 1 }])
   }
 ];
 
+// Look up a light source by id ('natural' means no lighting transformation).
+// Ids that aren't built in are parsed as custom light definitions (see illuminantUtils).
+export function findLightSource(lightId: string): LightSource | undefined {
+  if (lightId === 'natural') {
+    return undefined;
+  }
+  return LIGHT_SOURCES.find(light => light.id === lightId) ?? parseCustomLightId(lightId);
+}
+
+export function isValidLightId(lightId: string): boolean {
+  return lightId === 'natural' || findLightSource(lightId) !== undefined;
+}
+
+// Built-in lights followed by the user's custom lights. A custom light opened from a
+// share link but not saved in this browser is appended so it can still be shown.
+export function getAvailableLights(customLights: LightSource[], currentLightId?: string): LightSource[] {
+  const lights = [...LIGHT_SOURCES, ...customLights];
+  if (!currentLightId || lights.some(light => light.id === currentLightId)) {
+    return lights;
+  }
+
+  const current = findLightSource(currentLightId);
+  return current ? [...lights, current] : lights;
+}
+
 // Main function to transform a color for a specific lighting condition
 export function transformColorForLighting(hexColor: string, lightSource: LightSource): string {
   // 1. Convert hex to RGB (0-1 range)
@@ -273,26 +329,81 @@ export function transformColorForLighting(hexColor: string, lightSource: LightSo
   );
 }
 
+// Spectrum of a light, estimated from its color temperature when none is specified
+function getLightSpd(lightSource: LightSource): number[] | undefined {
+  if (lightSource.spectralPowerDistribution) {
+    return lightSource.spectralPowerDistribution;
+  }
+
+  const kelvin = lightSource.colorTemperature;
+  if (!kelvin) {
+    return undefined;
+  }
+
+  // Below 4000K real sources are close to blackbodies; above, to daylight
+  if (kelvin < 4000) {
+    return blackbodySpd(Math.max(1000, kelvin));
+  }
+  const { x, y } = cctToChromaticity(Math.min(25000, kelvin), 'daylight');
+  return daylightSpd(x, y);
+}
+
+// Spectral alternative to transformColorForLighting. The surface reflectance is measured
+// when given, otherwise estimated from the sRGB color; lights without a usable spectrum
+// fall back to chromatic adaptation.
+export function transformColorSpectrally(hexColor: string, lightSource: LightSource, reflectance?: number[]): string {
+  const spd = getLightSpd(lightSource);
+  if (!spd) {
+    return transformColorForLighting(hexColor, lightSource);
+  }
+  
+  const rgb = hexToRgb(hexColor);
+  const surface = reflectance ?? estimateReflectance(hexColor.toUpperCase(), srgbToXyz(rgb.r, rgb.g, rgb.b));
+  let xyz = spectrumToXyz(spd, surface);
+  const spectralWhite = spectrumToXyz(spd);
+  
+  if (lightSource.spectralProfile === 'narrow') {
+    // Expose so a white surface just fits the display, rather than clipping everything
+    const white = xyzToSrgb(spectralWhite);
+    const peak = srgbToLinear(Math.max(white.r, white.g, white.b));
+    if (peak > 1) {
+      xyz = { X: xyz.X / peak, Y: xyz.Y / peak, Z: xyz.Z / peak };
+    }
+  } else {
+    // Broadband spectra are models, so keep neutrals on the light's specified white point
+    xyz = chromaticAdaptation(xyz, spectralWhite, lightSource.whitePoint);
+  }
+  
+  const clampedRgb = clampRgb(xyzToSrgb(xyz));
+  return rgbToHex(
+    Math.round(clampedRgb.r * 255),
+    Math.round(clampedRgb.g * 255),
+    Math.round(clampedRgb.b * 255)
+  );
+}
+
 // Performance optimization: Cache for color transformations
 const colorTransformCache = new Map<string, string>();
 const MAX_CACHE_SIZE = 1000;
 
 // Get cached color transformation (for performance)
-export function getCachedColorTransform(hexColor: string, lightId: string): string {
-  const cacheKey = `${hexColor}-${lightId}`;
+export function getCachedColorTransform(hexColor: string, lightId: string, model: LightingModel = 'adaptation'): string {
+  const cacheKey = model === 'spectral' ? `${hexColor}-${lightId}-spectral` : `${hexColor}-${lightId}`;
   
   if (colorTransformCache.has(cacheKey)) {
     return colorTransformCache.get(cacheKey)!;
   }
   
   // Find light source and perform transformation
-  const lightSource = LIGHT_SOURCES.find(l => l.id === lightId);
+  const lightSource = findLightSource(lightId);
   if (!lightSource) {
     return hexColor; // Return original if light source not found
   }
   
   try {
-    const transformed = transformColorForLighting(hexColor, lightSource);
+    const transformed = model === 'spectral'
+      ? transformColorSpectrally(hexColor, lightSource)
+      : transformColorForLighting(hexColor, lightSource);
     
     // Maintain cache size (LRU eviction)
     if (colorTransformCache.size >= MAX_CACHE_SIZE) {
@@ -308,4 +419,19 @@ export function getCachedColorTransform(hexColor: string, lightId: string): stri
     console.error(`Transform error for ${hexColor} with ${lightId}:`, error);
     return hexColor; // Return original on error
   }
-}
\ No newline at end of file
+}
+
+// Apply a light source to every color in a palette (no-op for natural light)
+export function applyLightingToColors(colors: Color[], lightSource?: LightSource, model: LightingModel = 'adaptation'): Color[] {
+  if (!lightSource) {
+    return colors;
+  }
+  
+  return colors.map(color => ({
+    ...color,
+    // Measured reflectances aren't keyed by hex, so they skip the cache
+    hex: model === 'spectral' && color.reflectance
+      ? transformColorSpectrally(color.hex, lightSource, color.reflectance)
+      : getCachedColorTransform(color.hex, lightSource.id, model)
+  }));
+}
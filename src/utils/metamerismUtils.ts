@@ -0,0 +1,56 @@
+// Metamerism checks: chip pairs that are distinct in daylight but merge under another light
+
+import { Color } from '../types';
+import { DELTA_E_THRESHOLDS, hexDeltaE } from './colorDifferenceUtils';
+import { LightSource, LightingModel, applyLightingToColors } from './lightingUtils';
+
+// Below "close" a pair only separates on close inspection, which is lost across a sheet
+export const DEFAULT_METAMERISM_THRESHOLD = DELTA_E_THRESHOLDS.close;
+
+export interface MetamerismWarning {
+  light: LightSource;
+  colorA: Color;
+  colorB: Color;
+  litHexA: string;
+  litHexB: string;
+  daylightDeltaE: number;
+  litDeltaE: number;
+}
+
+// Pairs at or above the threshold in daylight that fall below it under a light, closest first
+export const findMetamericPairs = (
+  colors: Color[],
+  lights: LightSource[],
+  threshold: number = DEFAULT_METAMERISM_THRESHOLD,
+  model: LightingModel = 'adaptation'
+): MetamerismWarning[] => {
+  const warnings: MetamerismWarning[] = [];
+
+  for (const light of lights) {
+    const litColors = applyLightingToColors(colors, light, model);
+
+    for (let i = 0; i < colors.length; i++) {
+      for (let j = i + 1; j < colors.length; j++) {
+        const daylightDeltaE = hexDeltaE(colors[i].hex, colors[j].hex);
+        if (daylightDeltaE < threshold) {
+          continue;
+        }
+
+        const litDeltaE = hexDeltaE(litColors[i].hex, litColors[j].hex);
+        if (litDeltaE < threshold) {
+          warnings.push({
+            light,
+            colorA: colors[i],
+            colorB: colors[j],
+            litHexA: litColors[i].hex,
+            litHexB: litColors[j].hex,
+            daylightDeltaE,
+            litDeltaE,
+          });
+        }
+      }
+    }
+  }
+
+  return warnings.sort((a, b) => a.litDeltaE - b.litDeltaE);
+};
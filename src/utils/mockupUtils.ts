@@ -0,0 +1,219 @@
+// Room mockup: a wall of installed sheets in the same colorway. Each sheet comes from a
+// different pressing, so it gets its own seed; the joints between them show the grout.
+
+import { WallLayout } from '../types';
+import { applyLightingToColors } from './lightingUtils';
+import { applyVisionSimulationToColors } from './colorVisionUtils';
+import { hashValues } from './randomUtils';
+import { MAX_SEED, scaleToCellCount } from './voronoiUtils';
+import {
+  SheetRenderOptions,
+  canvasToBlob,
+  downloadBlob,
+  mmToPixels,
+  renderSheetToCanvas,
+  validateExportSize,
+} from './exportUtils';
+
+const MM_PER_INCH = 25.4;
+
+// The scale's chip count fills this much of a sheet, so chips keep their physical size
+// whatever the sheets measure
+const SCALE_REFERENCE_MM = 1000;
+
+// Chips drawn smaller than this many pixels only blur into each other
+const MIN_CHIP_PIXELS = 36;
+
+// Most chips a wall render may lay out over all its panels; past this, spacing and
+// drawing them takes minutes
+const MAX_WALL_CHIPS = 250000;
+
+export const DEFAULT_WALL_LAYOUT: WallLayout = {
+  columns: 4,
+  rows: 1,
+  sheetWidth: 1220,
+  sheetHeight: 2440,
+  gap: 4,
+  groutColor: '#9C978E',
+};
+
+// Every panel is a full render, so the grid is kept small enough to redraw quickly
+export const WALL_LIMITS = {
+  columns: { min: 1, max: 6 },
+  rows: { min: 1, max: 3 },
+  sheetSize: { min: 100, max: 3050 },
+  gap: { min: 0, max: 50 },
+} as const;
+
+const clamp = (value: number, { min, max }: { min: number; max: number }): number => {
+  return Number.isFinite(value) ? Math.min(Math.max(value, min), max) : min;
+};
+
+// Bring values typed into the controls within the limits
+export const clampWallLayout = (layout: WallLayout): WallLayout => {
+  return {
+    ...layout,
+    columns: Math.round(clamp(layout.columns, WALL_LIMITS.columns)),
+    rows: Math.round(clamp(layout.rows, WALL_LIMITS.rows)),
+    sheetWidth: clamp(layout.sheetWidth, WALL_LIMITS.sheetSize),
+    sheetHeight: clamp(layout.sheetHeight, WALL_LIMITS.sheetSize),
+    gap: clamp(layout.gap, WALL_LIMITS.gap),
+  };
+};
+
+// The top-left panel keeps the sheet's own seed, so it is the preview's sheet wherever
+// the chip counts agree. The others are derived from their place on the wall, so
+// adding rows or columns leaves the existing panels as they were.
+export const getPanelSeed = (seed: number, row: number, column: number): number => {
+  return row === 0 && column === 0 ? seed : hashValues(seed, row, column) % MAX_SEED;
+};
+
+// Overall wall size in millimetres
+export const getWallSize = (layout: WallLayout): { width: number; height: number } => {
+  return {
+    width: layout.columns * layout.sheetWidth + (layout.columns - 1) * layout.gap,
+    height: layout.rows * layout.sheetHeight + (layout.rows - 1) * layout.gap,
+  };
+};
+
+// Chips in the square on the shorter side of a panel drawn at the given pixel size:
+// as many as the sheet's physical size holds at this scale, but no more than the
+// pixels can show
+export const getPanelCellCount = (scale: number, layout: WallLayout, width: number, height: number): number => {
+  const sideMm = Math.min(layout.sheetWidth, layout.sheetHeight);
+  const physicalCount = scaleToCellCount(scale) * (sideMm / SCALE_REFERENCE_MM) ** 2;
+  const side = Math.min(width, height);
+  return Math.max(1, Math.round(Math.min(physicalCount, side * side / MIN_CHIP_PIXELS)));
+};
+
+// Wall size in pixels at the given resolution
+export const getWallPixelSize = (layout: WallLayout, dpi: number): { width: number; height: number } => {
+  const { width, height } = getWallSize(layout);
+  return { width: mmToPixels(width, dpi), height: mmToPixels(height, dpi) };
+};
+
+// Resolution at which the whole wall fits within the given pixel size
+export const getFitDpi = (layout: WallLayout, maxWidth: number, maxHeight: number): number => {
+  const { width, height } = getWallSize(layout);
+  return Math.min(maxWidth / width, maxHeight / height) * MM_PER_INCH;
+};
+
+interface PanelRect {
+  row: number;
+  column: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Every panel's place on the wall in pixels. Edges are rounded from their positions in
+// millimetres, so joints stay even across the wall.
+const getPanelRects = (layout: WallLayout, dpi: number): PanelRect[] => {
+  const rects: PanelRect[] = [];
+
+  for (let row = 0; row < layout.rows; row++) {
+    const top = mmToPixels(row * (layout.sheetHeight + layout.gap), dpi);
+    const bottom = mmToPixels(row * (layout.sheetHeight + layout.gap) + layout.sheetHeight, dpi);
+
+    for (let column = 0; column < layout.columns; column++) {
+      const left = mmToPixels(column * (layout.sheetWidth + layout.gap), dpi);
+      const right = mmToPixels(column * (layout.sheetWidth + layout.gap) + layout.sheetWidth, dpi);
+      if (right <= left || bottom <= top) continue;
+
+      rects.push({ row, column, left, top, width: right - left, height: bottom - top });
+    }
+  }
+
+  return rects;
+};
+
+// Chips on the whole wall: each panel fills its strip at the square's density
+export const getWallChipCount = (scale: number, layout: WallLayout, dpi: number): number => {
+  return getPanelRects(layout, dpi).reduce((total, { width, height }) => {
+    const side = Math.min(width, height);
+    return total + Math.round(getPanelCellCount(scale, layout, width, height) * width * height / (side * side));
+  }, 0);
+};
+
+// Returns a readable error if the wall can't be rendered at this resolution, otherwise null
+export const validateWallExport = (scale: number, layout: WallLayout, dpi: number): string | null => {
+  const { width, height } = getWallPixelSize(layout, dpi);
+  const sizeError = validateExportSize(width, height);
+  if (sizeError) {
+    return sizeError;
+  }
+
+  const chipCount = getWallChipCount(scale, layout, dpi);
+  if (chipCount > MAX_WALL_CHIPS) {
+    return `Wall has too many chips to render (${Math.round(chipCount / 1000)}k of at most ${MAX_WALL_CHIPS / 1000}k); reduce the scale, the sheet size or the number of sheets`;
+  }
+
+  return null;
+};
+
+// Render the wall to a new off-screen canvas, one panel at a time. The page gets a
+// turn between panels, so it stays responsive; onProgress hears how many panels are
+// done. Stops and gives null once the signal aborts.
+export const renderWallToCanvas = async (
+  options: SheetRenderOptions,
+  layout: WallLayout,
+  dpi: number,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<HTMLCanvasElement | null> => {
+  const sizeError = validateWallExport(options.scale, layout, dpi);
+  if (sizeError) {
+    throw new Error(sizeError);
+  }
+
+  const { width, height } = getWallPixelSize(layout, dpi);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // Grout sits under the same light as the sheets
+  const [grout] = applyVisionSimulationToColors(
+    applyLightingToColors([{ id: 'grout', hex: layout.groutColor, density: 0 }], options.lightSource, options.lightingModel),
+    options.visionSimulation
+  );
+  ctx.fillStyle = grout.hex;
+  ctx.fillRect(0, 0, width, height);
+
+  const panels = getPanelRects(layout, dpi);
+  for (let i = 0; i < panels.length; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) {
+      return null;
+    }
+
+    const { row, column, left, top, width: panelWidth, height: panelHeight } = panels[i];
+    const panel = renderSheetToCanvas(
+      { ...options, seed: getPanelSeed(options.seed, row, column) },
+      panelWidth,
+      panelHeight,
+      getPanelCellCount(options.scale, layout, panelWidth, panelHeight)
+    );
+    ctx.drawImage(panel, left, top);
+    onProgress?.(i + 1, panels.length);
+  }
+
+  return canvas;
+};
+
+export const exportWallAsPNG = async (
+  options: SheetRenderOptions,
+  layout: WallLayout,
+  dpi: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> => {
+  const canvas = await renderWallToCanvas(options, layout, dpi, onProgress);
+  if (!canvas) return;
+
+  const blob = await canvasToBlob(canvas);
+  downloadBlob(blob, `colorway-${options.seed}-wall-${layout.columns}x${layout.rows}-${canvas.width}x${canvas.height}.png`);
+};
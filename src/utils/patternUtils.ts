@@ -0,0 +1,345 @@
+// Pattern settings: defaults, validation and URL parameters
+
+import { ChipShape, ClusterKernel, Color, ColorAssignmentMode, PatternSettings, PointDistribution } from '../types';
+import { hexToRgb, isValidHexColor, rgbToHex } from './colorUtils';
+import { getChipCoverage, showsMatrix } from './chipShapeUtils';
+
+export const DEFAULT_PATTERN: PatternSettings = {
+  assignment: 'random',
+  distribution: 'uniform',
+  spacing: 0.6,
+  relaxation: 2,
+  clusterKernel: 'thomas',
+  clusterSize: 6,
+  clusterSpread: 0.4,
+  shape: 'cells',
+  flowAngle: 0,
+  flowStretch: 1,
+  tileable: false,
+  coverage: 1,
+  matrixColor: '#E6E1D6',
+  matrixOpacity: 1,
+};
+
+export const ASSIGNMENT_MODES: { id: ColorAssignmentMode; label: string; description: string }[] = [
+  {
+    id: 'random',
+    label: 'Random draw',
+    description: 'Each chip is drawn independently, so shares vary a little like a real batch',
+  },
+  {
+    id: 'quota',
+    label: 'Exact quota',
+    description: 'Chip counts match the densities exactly, for quoting material',
+  },
+];
+
+export const POINT_DISTRIBUTIONS: { id: PointDistribution; label: string; description: string }[] = [
+  {
+    id: 'uniform',
+    label: 'Uniform',
+    description: 'Chip centers fall anywhere, leaving slivers and clumps',
+  },
+  {
+    id: 'poisson',
+    label: 'Poisson-disc',
+    description: 'No two chip centers closer than a minimum spacing, like chips pressed edge to edge',
+  },
+  {
+    id: 'lloyd',
+    label: 'Relaxed',
+    description: 'Random centers nudged toward the middle of their cells, for even chip sizes',
+  },
+  {
+    id: 'clustered',
+    label: 'Clustered',
+    description: 'Chips gather in clumps, like a poorly mixed batch',
+  },
+];
+
+export const CLUSTER_KERNELS: { id: ClusterKernel; name: string; label: string }[] = [
+  { id: 'thomas', name: 'Thomas', label: 'Thomas (Gaussian)' },
+  { id: 'matern', name: 'Matérn', label: 'Matérn (disc)' },
+];
+
+export const CHIP_SHAPES: { id: ChipShape; label: string; description: string }[] = [
+  {
+    id: 'cells',
+    label: 'Cells',
+    description: 'Each chip fills its cell exactly, with straight edges',
+  },
+  {
+    id: 'jagged',
+    label: 'Jagged flakes',
+    description: 'Chip edges broken into irregular zigzags, like ground flakes',
+  },
+  {
+    id: 'granules',
+    label: 'Granules',
+    description: 'Rounded pellets pressed together',
+  },
+  {
+    id: 'shards',
+    label: 'Shards',
+    description: 'Long splinters lined up with the flow direction',
+  },
+  {
+    id: 'terrazzo',
+    label: 'Terrazzo',
+    description: 'Angular fragments set apart in a pale base resin',
+  },
+];
+
+export type NumericPatternSetting =
+  | 'spacing'
+  | 'relaxation'
+  | 'clusterSize'
+  | 'clusterSpread'
+  | 'flowAngle'
+  | 'flowStretch'
+  | 'coverage'
+  | 'matrixOpacity';
+
+// Allowed values for the numeric settings; Poisson-disc spacing stops short of the
+// point where dart throwing jams and can no longer place every chip
+export const PATTERN_RANGES: Record<NumericPatternSetting, { min: number; max: number; step: number }> = {
+  spacing: { min: 0.3, max: 0.75, step: 0.05 },
+  relaxation: { min: 1, max: 8, step: 1 },
+  clusterSize: { min: 2, max: 20, step: 1 },
+  clusterSpread: { min: 0.1, max: 1, step: 0.05 },
+  flowAngle: { min: 0, max: 180, step: 5 },
+  flowStretch: { min: 1, max: 4, step: 0.1 },
+  coverage: { min: 0.3, max: 1, step: 0.05 },
+  matrixOpacity: { min: 0, max: 1, step: 0.05 },
+};
+
+// Settings each distribution uses, written to links only for that distribution
+const DISTRIBUTION_SETTINGS: Record<PointDistribution, (keyof PatternSettings)[]> = {
+  uniform: [],
+  poisson: ['spacing'],
+  lloyd: ['relaxation'],
+  clustered: ['clusterKernel', 'clusterSize', 'clusterSpread'],
+};
+
+// Shards line up with the flow, and a stretched layout is stretched along it
+export const usesFlowAngle = (pattern: PatternSettings): boolean => {
+  return pattern.shape === 'shards' || pattern.flowStretch > 1;
+};
+
+export const isValidAssignmentMode = (value: unknown): value is ColorAssignmentMode => {
+  return ASSIGNMENT_MODES.some(mode => mode.id === value);
+};
+
+export const isValidPointDistribution = (value: unknown): value is PointDistribution => {
+  return POINT_DISTRIBUTIONS.some(distribution => distribution.id === value);
+};
+
+export const isValidClusterKernel = (value: unknown): value is ClusterKernel => {
+  return CLUSTER_KERNELS.some(kernel => kernel.id === value);
+};
+
+export const isValidChipShape = (value: unknown): value is ChipShape => {
+  return CHIP_SHAPES.some(shape => shape.id === value);
+};
+
+export const isValidPatternSetting = (setting: NumericPatternSetting, value: unknown): value is number => {
+  const { min, max } = PATTERN_RANGES[setting];
+  const isWhole = setting === 'relaxation' || setting === 'clusterSize';
+  return typeof value === 'number' && isFinite(value) && value >= min && value <= max && (!isWhole || Number.isInteger(value));
+};
+
+// Full-length uppercase hex, as color inputs need all six digits
+const toMatrixHex = (hex: string): string => {
+  const { r, g, b } = hexToRgb(hex);
+  return rgbToHex(r, g, b);
+};
+
+// Fill in defaults for settings saved before a field existed, dropping invalid values
+export const normalizePattern = (value: unknown): PatternSettings => {
+  const candidate = typeof value === 'object' && value !== null ? value as Partial<PatternSettings> : {};
+  const numeric = (setting: NumericPatternSetting): number => {
+    return isValidPatternSetting(setting, candidate[setting]) ? candidate[setting] as number : DEFAULT_PATTERN[setting];
+  };
+
+  return {
+    assignment: isValidAssignmentMode(candidate.assignment) ? candidate.assignment : DEFAULT_PATTERN.assignment,
+    distribution: isValidPointDistribution(candidate.distribution) ? candidate.distribution : DEFAULT_PATTERN.distribution,
+    spacing: numeric('spacing'),
+    relaxation: numeric('relaxation'),
+    clusterKernel: isValidClusterKernel(candidate.clusterKernel) ? candidate.clusterKernel : DEFAULT_PATTERN.clusterKernel,
+    clusterSize: numeric('clusterSize'),
+    clusterSpread: numeric('clusterSpread'),
+    shape: isValidChipShape(candidate.shape) ? candidate.shape : DEFAULT_PATTERN.shape,
+    flowAngle: numeric('flowAngle'),
+    flowStretch: numeric('flowStretch'),
+    tileable: typeof candidate.tileable === 'boolean' ? candidate.tileable : DEFAULT_PATTERN.tileable,
+    coverage: numeric('coverage'),
+    matrixColor: typeof candidate.matrixColor === 'string' && isValidHexColor(candidate.matrixColor)
+      ? toMatrixHex(candidate.matrixColor)
+      : DEFAULT_PATTERN.matrixColor,
+    matrixOpacity: numeric('matrixOpacity'),
+  };
+};
+
+export const isSamePattern = (a: PatternSettings, b: PatternSettings): boolean => {
+  return (Object.keys(DEFAULT_PATTERN) as (keyof PatternSettings)[]).every(key => a[key] === b[key]);
+};
+
+// Short description of the layout for spec sheets, e.g. "Poisson-disc, spacing 0.6"
+const formatDistribution = (pattern: PatternSettings): string => {
+  const label = POINT_DISTRIBUTIONS.find(distribution => distribution.id === pattern.distribution)?.label ?? pattern.distribution;
+
+  switch (pattern.distribution) {
+    case 'poisson':
+      return `${label}, spacing ${pattern.spacing}`;
+    case 'lloyd':
+      return `${label}, ${pattern.relaxation} iteration${pattern.relaxation === 1 ? '' : 's'}`;
+    case 'clustered': {
+      const kernel = CLUSTER_KERNELS.find(entry => entry.id === pattern.clusterKernel)?.name ?? pattern.clusterKernel;
+      return `${label} (${kernel}), ${pattern.clusterSize} per cluster, spread ${pattern.clusterSpread}`;
+    }
+    default:
+      return label;
+  }
+};
+
+// Layout with any flow stretch and tiling, e.g. "Uniform, stretched 2.5× at 30°, tileable"
+export const formatPointDistribution = (pattern: PatternSettings): string => {
+  const layout = formatDistribution(pattern);
+  const stretched = pattern.flowStretch > 1 ? `${layout}, stretched ${pattern.flowStretch}× at ${pattern.flowAngle}°` : layout;
+  return pattern.tileable ? `${stretched}, tileable` : stretched;
+};
+
+export const formatChipShape = (pattern: PatternSettings): string => {
+  const label = CHIP_SHAPES.find(shape => shape.id === pattern.shape)?.label ?? pattern.shape;
+  return pattern.shape === 'shards' ? `${label}, flow ${pattern.flowAngle}°` : label;
+};
+
+// Matrix for spec sheets, e.g. "#E6E1D6, 30% of sheet, 60% opaque"
+export const formatMatrix = (pattern: PatternSettings): string => {
+  const share = `${Math.round((1 - getChipCoverage(pattern)) * 100)}% of sheet`;
+  const opacity = pattern.matrixOpacity < 1 ? `, ${Math.round(pattern.matrixOpacity * 100)}% opaque` : '';
+  return `${pattern.matrixColor}, ${share}${opacity}`;
+};
+
+// Light and simulate the matrix like a chip by running it through the palette's transform
+export const transformMatrixColor = (pattern: PatternSettings, transform: (colors: Color[]) => Color[]): PatternSettings => {
+  const [matrix] = transform([{ id: 'matrix', hex: pattern.matrixColor, density: 0 }]);
+  return matrix.hex === pattern.matrixColor ? pattern : { ...pattern, matrixColor: matrix.hex };
+};
+
+// URL parameter for each setting
+const PATTERN_PARAMS: Record<keyof PatternSettings, string> = {
+  assignment: 'assign',
+  distribution: 'points',
+  spacing: 'spacing',
+  relaxation: 'relax',
+  clusterKernel: 'cluster',
+  clusterSize: 'clusterSize',
+  clusterSpread: 'spread',
+  shape: 'shape',
+  flowAngle: 'flow',
+  flowStretch: 'stretch',
+  tileable: 'tile',
+  coverage: 'coverage',
+  matrixColor: 'matrix',
+  matrixOpacity: 'matrixOpacity',
+};
+
+// Only settings that differ from the defaults are written, to keep links short
+export const writePatternParams = (pattern: PatternSettings, params: URLSearchParams): void => {
+  const keys: (keyof PatternSettings)[] = [
+    'assignment',
+    'distribution',
+    ...DISTRIBUTION_SETTINGS[pattern.distribution],
+    'shape',
+    'flowStretch',
+    'tileable',
+    ...(usesFlowAngle(pattern) ? ['flowAngle'] as (keyof PatternSettings)[] : []),
+    'coverage',
+    ...(showsMatrix(pattern) ? ['matrixColor', 'matrixOpacity'] as (keyof PatternSettings)[] : []),
+  ];
+
+  for (const key of keys) {
+    if (pattern[key] !== DEFAULT_PATTERN[key]) {
+      // '#' would need escaping, so colors go without it; switches are written as 1
+      const value = key === 'matrixColor'
+        ? pattern.matrixColor.replace('#', '')
+        : key === 'tileable' ? '1' : pattern[key].toString();
+      params.set(PATTERN_PARAMS[key], value);
+    }
+  }
+};
+
+export const readPatternParams = (params: URLSearchParams): PatternSettings => {
+  const pattern = { ...DEFAULT_PATTERN };
+
+  const assignParam = params.get(PATTERN_PARAMS.assignment);
+  if (assignParam) {
+    if (isValidAssignmentMode(assignParam)) {
+      pattern.assignment = assignParam;
+    } else {
+      console.warn(`Ignored unknown color assignment "${assignParam}" in URL`);
+    }
+  }
+
+  const pointsParam = params.get(PATTERN_PARAMS.distribution);
+  if (pointsParam) {
+    if (isValidPointDistribution(pointsParam)) {
+      pattern.distribution = pointsParam;
+    } else {
+      console.warn(`Ignored unknown point distribution "${pointsParam}" in URL`);
+    }
+  }
+
+  const clusterParam = params.get(PATTERN_PARAMS.clusterKernel);
+  if (clusterParam) {
+    if (isValidClusterKernel(clusterParam)) {
+      pattern.clusterKernel = clusterParam;
+    } else {
+      console.warn(`Ignored unknown cluster kernel "${clusterParam}" in URL`);
+    }
+  }
+
+  const shapeParam = params.get(PATTERN_PARAMS.shape);
+  if (shapeParam) {
+    if (isValidChipShape(shapeParam)) {
+      pattern.shape = shapeParam;
+    } else {
+      console.warn(`Ignored unknown chip shape "${shapeParam}" in URL`);
+    }
+  }
+
+  const tileParam = params.get(PATTERN_PARAMS.tileable);
+  if (tileParam) {
+    if (tileParam === '1' || tileParam === '0') {
+      pattern.tileable = tileParam === '1';
+    } else {
+      console.warn(`Ignored invalid tile setting "${tileParam}" in URL`);
+    }
+  }
+
+  const matrixParam = params.get(PATTERN_PARAMS.matrixColor);
+  if (matrixParam) {
+    const hex = matrixParam.startsWith('#') ? matrixParam : `#${matrixParam}`;
+    if (isValidHexColor(hex)) {
+      pattern.matrixColor = toMatrixHex(hex);
+    } else {
+      console.warn(`Ignored invalid matrix color "${matrixParam}" in URL`);
+    }
+  }
+
+  for (const setting of Object.keys(PATTERN_RANGES) as NumericPatternSetting[]) {
+    const param = params.get(PATTERN_PARAMS[setting]);
+    if (param) {
+      const value = parseFloat(param);
+      if (isValidPatternSetting(setting, value)) {
+        pattern[setting] = value;
+      } else {
+        console.warn(`Ignored out of range ${PATTERN_PARAMS[setting]} "${param}" in URL`);
+      }
+    }
+  }
+
+  return pattern;
+};
@@ -0,0 +1,287 @@
+// Point processes for chip centers. Every generator draws from the given random source
+// only, so the same seed and settings always give the same layout. Fixed points are
+// chips already laid out past an edge, such as the preview square next to a sheet's
+// strip; the new points treat them as neighbours, so no seam shows where they meet.
+
+import { ClusterKernel, PatternSettings } from '../types';
+import { RandomSource } from './randomUtils';
+import { Bounds, FlowStretch, computeFlowVoronoi, getFlowStretch } from './flowUtils';
+import { getTiledBounds, replicatePoints, wrapCoordinate, wrapOffset } from './tilingUtils';
+
+type Point = [number, number];
+
+// Dart throwing gives up on the current spacing after this many misses in a row
+const MAX_POISSON_ATTEMPTS = 30;
+
+// Bounded retries for cluster children that land off the sheet
+const MAX_CLUSTER_ATTEMPTS = 20;
+
+// Fixed points within this many mean chip spacings of the edge shape the relaxed cells there
+const RELAXATION_REACH = 3;
+
+// Fixed points within reach of the rectangle from (0, 0) to (width, height)
+const getFixedInReach = (fixed: Point[], width: number, height: number, reach: number): Point[] => {
+  return fixed.filter(([x, y]) => x > -reach && x < width + reach && y > -reach && y < height + reach);
+};
+
+const generateUniformPoints = (random: RandomSource, count: number, width: number, height: number): Point[] => {
+  const points: Point[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    points.push([x, y]);
+  }
+
+  return points;
+};
+
+// Dart throwing with a minimum distance of spacing × the mean chip spacing. The sheet
+// needs exactly count chips, so when darts keep missing the spacing is eased a little
+// rather than leaving the sheet short. Stretched patterns measure in flow space, and
+// tileable ones across the edges to the wrapped-around neighbours.
+const generatePoissonDiscPoints = (
+  random: RandomSource,
+  count: number,
+  width: number,
+  height: number,
+  spacing: number,
+  stretch: FlowStretch | null,
+  tileable: boolean,
+  fixed: Point[]
+): Point[] => {
+  let minDistance = spacing * Math.sqrt(width * height / count);
+
+  // Grid of cells at least the initial spacing, widened by the most the flow can
+  // lengthen it on the sheet; the spacing only shrinks, so two rings always cover it.
+  // Whole cells only, so the rings stay that wide where they wrap around. Fixed points
+  // past an edge go in the cells along it.
+  const reach = minDistance * (stretch?.maxStretch ?? 1);
+  const columns = Math.max(1, Math.floor(width / reach));
+  const rows = Math.max(1, Math.floor(height / reach));
+  const grid: Point[][] = Array.from({ length: columns * rows }, () => []);
+  const toColumn = (x: number) => Math.min(columns - 1, Math.max(0, Math.floor(x / width * columns)));
+  const toRow = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(y / height * rows)));
+  getFixedInReach(fixed, width, height, reach).forEach(point => grid[toRow(point[1]) * columns + toColumn(point[0])].push(point));
+
+  // Neighbouring grid lines, wrapped around on a tile and cut off at the sheet edge otherwise
+  const neighbours = (index: number, size: number): number[] => {
+    const candidates = [index - 1, index, index + 1];
+    return tileable
+      ? [...new Set(candidates.map(candidate => wrapCoordinate(candidate, size)))]
+      : candidates.filter(candidate => candidate >= 0 && candidate < size);
+  };
+
+  const isFarEnough = (x: number, y: number): boolean => {
+    for (const gridRow of neighbours(toRow(y), rows)) {
+      for (const gridColumn of neighbours(toColumn(x), columns)) {
+        for (const [px, py] of grid[gridRow * columns + gridColumn]) {
+          const offset: Point = tileable ? [wrapOffset(px - x, width), wrapOffset(py - y, height)] : [px - x, py - y];
+          const [dx, dy] = stretch ? stretch.toFlow(offset) : offset;
+          if (dx * dx + dy * dy < minDistance * minDistance) {
+            return false;
+          }
+        }
+      }
+    }
+    return true;
+  };
+
+  const points: Point[] = [];
+  while (points.length < count) {
+    let placed = false;
+
+    for (let attempt = 0; attempt < MAX_POISSON_ATTEMPTS && !placed; attempt++) {
+      const x = random() * width;
+      const y = random() * height;
+      if (isFarEnough(x, y)) {
+        points.push([x, y]);
+        grid[toRow(y) * columns + toColumn(x)].push([x, y]);
+        placed = true;
+      }
+    }
+
+    if (!placed) {
+      minDistance *= 0.95;
+    }
+  }
+
+  return points;
+};
+
+// Area-weighted centroid of a closed ring
+const polygonCentroid = (polygon: Point[]): Point | null => {
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < polygon.length - 1; i++) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    twiceArea += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+
+  if (twiceArea === 0) {
+    return null;
+  }
+  return [cx / (3 * twiceArea), cy / (3 * twiceArea)];
+};
+
+// Uniform points moved to their Voronoi cell centroids, once per iteration. Centroids
+// survive the flow stretch, so relaxing the stretched cells relaxes them in flow space.
+// Tileable cells run across the edges, and centroids past an edge wrap back in. Fixed
+// points near an edge cut the cells there instead of the edge, and the centroids are
+// kept on the sheet.
+const generateRelaxedPoints = (
+  random: RandomSource,
+  count: number,
+  width: number,
+  height: number,
+  iterations: number,
+  stretch: FlowStretch | null,
+  tileable: boolean,
+  fixed: Point[]
+): Point[] => {
+  let points = generateUniformPoints(random, count, width, height);
+
+  const reach = RELAXATION_REACH * Math.sqrt(width * height / count) * (stretch?.maxStretch ?? 1);
+  const neighbours = getFixedInReach(fixed, width, height, reach);
+  const bounds: Bounds = neighbours.reduce<Bounds>(
+    ([left, top, right, bottom], [x, y]) => [Math.min(left, x), Math.min(top, y), Math.max(right, x), Math.max(bottom, y)],
+    [0, 0, width, height]
+  );
+
+  for (let iteration = 0; iteration < iterations && points.length > 2; iteration++) {
+    const cells = tileable
+      ? computeFlowVoronoi(replicatePoints(points, width, height), getTiledBounds(width, height), stretch, points.length)
+      : computeFlowVoronoi([...points, ...neighbours], bounds, stretch, points.length);
+    points = points.map((point, i) => {
+      const centroid = cells[i] && polygonCentroid(cells[i]!);
+      if (!centroid) {
+        return point;
+      }
+      return tileable
+        ? [wrapCoordinate(centroid[0], width), wrapCoordinate(centroid[1], height)]
+        : [Math.min(Math.max(centroid[0], 0), width), Math.min(Math.max(centroid[1], 0), height)];
+    });
+  }
+
+  return points;
+};
+
+// Standard normal deviate (Box-Muller)
+const gaussian = (random: RandomSource): number => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Neyman-Scott process: uniform parent points, each chip placed around a randomly
+// chosen parent. Thomas scatters with a Gaussian of half the cluster radius, Matérn
+// evenly within the radius; stretched patterns draw clusters out along the flow.
+// Chips scattered past an edge are drawn again, or wrap around on a tile. Past an edge
+// with fixed points, parents are also drawn from a band one cluster radius wide, so
+// clusters run across it as they would on one larger sheet.
+const generateClusteredPoints = (
+  random: RandomSource,
+  count: number,
+  width: number,
+  height: number,
+  kernel: ClusterKernel,
+  clusterSize: number,
+  spread: number,
+  stretch: FlowStretch | null,
+  tileable: boolean,
+  fixed: Point[]
+): Point[] => {
+  const parentCount = Math.max(1, Math.round(count / clusterSize));
+  const radius = spread * Math.sqrt(width * height / parentCount);
+
+  const left = fixed.some(([x]) => x < 0) ? -radius : 0;
+  const top = fixed.some(([, y]) => y < 0) ? -radius : 0;
+  const right = fixed.some(([x]) => x > width) ? width + radius : width;
+  const bottom = fixed.some(([, y]) => y > height) ? height + radius : height;
+  const bandShare = (right - left) * (bottom - top) / (width * height);
+  const parents = generateUniformPoints(random, Math.round(parentCount * bandShare), right - left, bottom - top)
+    .map(([x, y]) => [left + x, top + y] as Point);
+
+  const offset = (): Point => {
+    if (kernel === 'thomas') {
+      return [gaussian(random) * radius / 2, gaussian(random) * radius / 2];
+    }
+    const distance = radius * Math.sqrt(random());
+    const angle = 2 * Math.PI * random();
+    return [distance * Math.cos(angle), distance * Math.sin(angle)];
+  };
+
+  const points: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    if (tileable) {
+      const [px, py] = parents[Math.floor(random() * parents.length)];
+      const [dx, dy] = stretch ? stretch.toSheet(offset()) : offset();
+      points.push([wrapCoordinate(px + dx, width), wrapCoordinate(py + dy, height)]);
+      continue;
+    }
+
+    let x = 0;
+    let y = 0;
+
+    for (let attempt = 0; attempt < MAX_CLUSTER_ATTEMPTS; attempt++) {
+      const [px, py] = parents[Math.floor(random() * parents.length)];
+      const [dx, dy] = stretch ? stretch.toSheet(offset()) : offset();
+      x = px + dx;
+      y = py + dy;
+      if (x >= 0 && x < width && y >= 0 && y < height) {
+        break;
+      }
+    }
+
+    points.push([Math.min(Math.max(x, 0), width), Math.min(Math.max(y, 0), height)]);
+  }
+
+  return points;
+};
+
+// count points in the rectangle from (x0, y0) with the given size, laid out by the
+// pattern's point distribution around the fixed points, in sheet coordinates. Uniform
+// points need no flow stretch or wrapping: an area-preserving map leaves them uniform,
+// and they have no neighbours to respect. A tile wraps onto itself, so it takes no
+// fixed points.
+export const generatePatternPoints = (
+  random: RandomSource,
+  count: number,
+  width: number,
+  height: number,
+  pattern: PatternSettings,
+  x0: number = 0,
+  y0: number = 0,
+  fixed: Point[] = []
+): Point[] => {
+  if (count <= 0) {
+    return [];
+  }
+
+  const stretch = getFlowStretch(pattern);
+  const { tileable } = pattern;
+  const neighbours = tileable ? [] : fixed.map(([x, y]) => [x - x0, y - y0] as Point);
+  let points: Point[];
+  switch (pattern.distribution) {
+    case 'poisson':
+      points = generatePoissonDiscPoints(random, count, width, height, pattern.spacing, stretch, tileable, neighbours);
+      break;
+    case 'lloyd':
+      points = generateRelaxedPoints(random, count, width, height, pattern.relaxation, stretch, tileable, neighbours);
+      break;
+    case 'clustered':
+      points = generateClusteredPoints(
+        random, count, width, height, pattern.clusterKernel, pattern.clusterSize, pattern.clusterSpread, stretch, tileable, neighbours
+      );
+      break;
+    default:
+      points = generateUniformPoints(random, count, width, height);
+  }
+
+  return x0 === 0 && y0 === 0 ? points : points.map(([x, y]) => [x0 + x, y0 + y]);
+};
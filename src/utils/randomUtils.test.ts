@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { RANDOM_STREAMS, createSeededRandom, hashValues } from './randomUtils';
+import { generateSeededPoints } from './voronoiUtils';
+import { DEFAULT_PATTERN } from './patternUtils';
+
+// Raw 32-bit outputs, recovered from the [0, 1) floats
+const draw = (seed: number, stream: number, count: number): number[] => {
+  const random = createSeededRandom(seed, stream);
+  return Array.from({ length: count }, () => random() * 4294967296);
+};
+
+const correlation = (xs: number[], ys: number[]): number => {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - mx) * (ys[i] - my);
+    vx += (x - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  });
+  return covariance / Math.sqrt(vx * vy);
+};
+
+describe('createSeededRandom', () => {
+  // Saved sheets and share links rely on these; a change here changes every layout
+  it('produces the pinned xoshiro128** sequence for fixed seeds', () => {
+    expect(draw(0, RANDOM_STREAMS.points, 4)).toEqual([2845883290, 3753006122, 3029681608, 1677479902]);
+    expect(draw(12345, RANDOM_STREAMS.points, 4)).toEqual([2360496105, 2923904297, 1527243882, 2508401538]);
+    expect(draw(12345, RANDOM_STREAMS.colors, 4)).toEqual([3010841591, 4135844576, 2152057537, 312038398]);
+    expect(draw(12345, RANDOM_STREAMS.shapes, 4)).toEqual([3977782442, 811727452, 2985796747, 4166646613]);
+  });
+
+  it('repeats the same sequence for the same seed and stream', () => {
+    expect(draw(777, RANDOM_STREAMS.colors, 100)).toEqual(draw(777, RANDOM_STREAMS.colors, 100));
+  });
+
+  it('returns whole 32-bit values scaled into [0, 1)', () => {
+    const random = createSeededRandom(42);
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      expect(Number.isInteger(value * 4294967296)).toBe(true);
+    }
+  });
+
+  it('keeps the points, colors and shapes streams independent', () => {
+    const count = 20000;
+    const streams = [RANDOM_STREAMS.points, RANDOM_STREAMS.colors, RANDOM_STREAMS.shapes, RANDOM_STREAMS.shapes + 1];
+    const tolerance = 4 / Math.sqrt(count);
+
+    for (const seed of [0, 1, 12345, 999999]) {
+      const sequences = streams.map(stream => draw(seed, stream, count));
+      for (let i = 0; i < sequences.length; i++) {
+        for (let j = i + 1; j < sequences.length; j++) {
+          expect(sequences[i].slice(0, 8)).not.toEqual(sequences[j].slice(0, 8));
+          expect(Math.abs(correlation(sequences[i], sequences[j]))).toBeLessThan(tolerance);
+        }
+      }
+    }
+  });
+
+  it('gives unrelated sequences for neighbouring seeds', () => {
+    const count = 20000;
+    expect(Math.abs(correlation(draw(1000, RANDOM_STREAMS.points, count), draw(1001, RANDOM_STREAMS.points, count))))
+      .toBeLessThan(4 / Math.sqrt(count));
+  });
+});
+
+describe('hashValues', () => {
+  it('is pinned for fixed inputs', () => {
+    expect(hashValues(1, 2, 3)).toBe(3403123636);
+  });
+
+  it('depends on the order of its inputs', () => {
+    expect(hashValues(1, 2)).not.toBe(hashValues(2, 1));
+  });
+});
+
+describe('seeded layouts', () => {
+  it('places the pinned points for a fixed seed', () => {
+    const points = generateSeededPoints(3, 100, 100, 12345);
+    const expected = [
+      [54.95958274696022, 68.07745194528252],
+      [35.55891760624945, 58.40327446348965],
+      [41.20943883899599, 74.88570515997708],
+    ];
+    points.forEach((point, i) => {
+      expect(point[0]).toBeCloseTo(expected[i][0], 10);
+      expect(point[1]).toBeCloseTo(expected[i][1], 10);
+    });
+  });
+
+  it('leaves chip positions unchanged when only the shape or colors change', () => {
+    const base = generateSeededPoints(500, 600, 600, 4321, DEFAULT_PATTERN);
+    expect(generateSeededPoints(500, 600, 600, 4321, { ...DEFAULT_PATTERN, shape: 'terrazzo' })).toEqual(base);
+    expect(generateSeededPoints(500, 600, 600, 4321, { ...DEFAULT_PATTERN, assignment: 'quota' })).toEqual(base);
+  });
+});
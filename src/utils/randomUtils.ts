@@ -0,0 +1,64 @@
+// Seeded pseudo-random numbers shared by pattern generation and color assignment.
+// xoshiro128** (Blackman & Vigna) for the stream, seeded through splitmix32 so that
+// neighbouring seeds give unrelated sequences.
+
+export type RandomSource = () => number;
+
+// Independent streams from the same seed, so adding a use of randomness in one
+// place never shifts the numbers seen by another
+export const RANDOM_STREAMS = {
+  points: 0,
+  colors: 1,
+  // Per-chip shape details use their own stream from here up, one per cell index,
+  // so one chip's shape never depends on how many numbers another chip used
+  shapes: 16,
+} as const;
+
+// splitmix32 output function: a strong 32-bit integer hash
+const mix32 = (value: number): number => {
+  let z = value | 0;
+  z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+  z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+  return (z ^ (z >>> 15)) >>> 0;
+};
+
+// Combine whole numbers into one well-mixed 32-bit value, e.g. to seed from coordinates
+export const hashValues = (...values: number[]): number => {
+  return values.reduce((hash, value) => mix32(hash ^ mix32(value)), 0x9e3779b9);
+};
+
+const rotateLeft = (value: number, bits: number): number => (value << bits) | (value >>> (32 - bits));
+
+// Uniform numbers in [0, 1), the same sequence for the same seed and stream
+export const createSeededRandom = (seed: number, stream: number = RANDOM_STREAMS.points): RandomSource => {
+  // splitmix32 expands the seed into the 128-bit xoshiro state
+  let splitState = mix32(seed) ^ mix32(~stream);
+  const nextSplit = (): number => {
+    splitState = (splitState + 0x9e3779b9) | 0;
+    return mix32(splitState);
+  };
+
+  let a = nextSplit();
+  let b = nextSplit();
+  let c = nextSplit();
+  let d = nextSplit();
+
+  // An all-zero state would only ever produce zeros
+  if ((a | b | c | d) === 0) {
+    a = 1;
+  }
+
+  return () => {
+    const result = Math.imul(rotateLeft(Math.imul(b, 5), 7), 9);
+    const t = b << 9;
+
+    c ^= a;
+    d ^= b;
+    b ^= c;
+    a ^= d;
+    c ^= t;
+    d = rotateLeft(d, 11);
+
+    return (result >>> 0) / 4294967296;
+  };
+};
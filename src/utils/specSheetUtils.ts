@@ -0,0 +1,184 @@
+// PDF spec sheet generation for approved colorways
+// Everything is rendered client-side; jsPDF and the QR encoder are loaded on demand
+
+import { calculateColorProbability, calculateTotalDensity, getChipSize } from './colorUtils';
+import { SheetRenderOptions, renderSheetToCanvas, downloadBlob } from './exportUtils';
+import { formatVisionSimulation, isVisionSimulated } from './colorVisionUtils';
+import { ASSIGNMENT_MODES, DEFAULT_PATTERN, formatChipShape, formatMatrix, formatPointDistribution } from './patternUtils';
+import { getChipCoverage, showsMatrix } from './chipShapeUtils';
+import { generateShareableURL } from './urlUtils';
+import { scaleToCellCount } from './voronoiUtils';
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const PREVIEW_SIZE_MM = 90;
+const PREVIEW_SIZE_PX = 1200;
+const QR_SIZE_MM = 40;
+const ROW_HEIGHT = 8;
+
+export interface SpecSheetOptions extends SheetRenderOptions {
+  title?: string;
+}
+
+const formatLightingCondition = (options: SpecSheetOptions): string => {
+  const { lightSource } = options;
+  if (!lightSource) {
+    return 'Natural (Daylight)';
+  }
+  return lightSource.colorTemperature
+    ? `${lightSource.name} (${lightSource.colorTemperature}K)`
+    : lightSource.name;
+};
+
+export const generateSpecSheetPDF = async (options: SpecSheetOptions): Promise<Blob> => {
+  const { colors, scale, seed, lightSource, pattern = DEFAULT_PATTERN, title = 'Colorway Spec Sheet' } = options;
+
+  const [{ jsPDF }, QRCode] = await Promise.all([import('jspdf'), import('qrcode')]);
+
+  const shareUrl = generateShareableURL({
+    colors,
+    scale,
+    lightingId: lightSource?.id ?? 'natural',
+    seed,
+    pattern,
+  });
+
+  // Render the preview without isolation dimming so the whole pattern is documented
+  const previewCanvas = renderSheetToCanvas({ ...options, isolatedColorId: null }, PREVIEW_SIZE_PX, PREVIEW_SIZE_PX);
+  const previewImage = previewCanvas.toDataURL('image/png');
+  const qrImage = await QRCode.toDataURL(shareUrl, { errorCorrectionLevel: 'M', margin: 1, width: 400 });
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(title, MARGIN, 20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(`Generated ${new Date().toLocaleString()}`, MARGIN, 26);
+  doc.setTextColor(0);
+
+  // Preview
+  const previewTop = 32;
+  doc.addImage(previewImage, 'PNG', MARGIN, previewTop, PREVIEW_SIZE_MM, PREVIEW_SIZE_MM);
+  doc.setDrawColor(200);
+  doc.rect(MARGIN, previewTop, PREVIEW_SIZE_MM, PREVIEW_SIZE_MM);
+
+  // Viewing conditions and reproduction details
+  const detailsLeft = MARGIN + PREVIEW_SIZE_MM + 10;
+  const details: [string, string][] = [
+    ['Lighting', formatLightingCondition(options)],
+    ['Rendering', options.lightingModel === 'spectral' ? 'Spectral (estimated reflectance)' : 'Chromatic adaptation'],
+    ...(isVisionSimulated(options.visionSimulation)
+      ? [['Vision', `Simulated ${formatVisionSimulation(options.visionSimulation)}`] as [string, string]]
+      : []),
+    ['Pattern seed', seed.toString()],
+    ['Scale', `${scale.toFixed(1)}x (${scaleToCellCount(scale)} cells)`],
+    ['Assignment', ASSIGNMENT_MODES.find(mode => mode.id === pattern.assignment)?.label ?? pattern.assignment],
+    ['Layout', formatPointDistribution(pattern)],
+    ['Chip shape', formatChipShape(pattern)],
+    ...(showsMatrix(pattern) ? [['Matrix', formatMatrix(pattern)] as [string, string]] : []),
+    ['Colors', colors.length.toString()],
+  ];
+
+  // Tighter rows once the list would run into the QR code
+  const detailsStep = details.length > 8 ? 5 : 6;
+  let detailsY = previewTop + 4;
+  doc.setFontSize(10);
+  for (const [label, value] of details) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, detailsLeft, detailsY);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, detailsLeft + 28, detailsY);
+    detailsY += detailsStep;
+  }
+
+  doc.addImage(qrImage, 'PNG', detailsLeft, previewTop + PREVIEW_SIZE_MM - QR_SIZE_MM, QR_SIZE_MM, QR_SIZE_MM);
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  doc.text('Scan to open this colorway', detailsLeft, previewTop + PREVIEW_SIZE_MM + 4);
+  doc.setTextColor(0);
+
+  // Recipe table
+  const tableTop = previewTop + PREVIEW_SIZE_MM + 14;
+  const columns = [
+    { label: 'Swatch', x: MARGIN },
+    { label: 'Hex', x: MARGIN + 22 },
+    { label: 'Pantone code', x: MARGIN + 50 },
+    { label: 'Density', x: MARGIN + 95 },
+    { label: 'Chip size', x: MARGIN + 118 },
+    { label: 'Share', x: MARGIN + 145 },
+  ];
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Recipe', MARGIN, tableTop - 4);
+  doc.setFontSize(9);
+  for (const column of columns) {
+    doc.text(column.label, column.x, tableTop + 4);
+  }
+  doc.setDrawColor(180);
+  doc.line(MARGIN, tableTop + 6, MARGIN + CONTENT_WIDTH, tableTop + 6);
+
+  doc.setFont('helvetica', 'normal');
+  const totalDensity = calculateTotalDensity(colors);
+  // Shares are of the whole sheet, so chips split what the matrix leaves them
+  const chipCoverage = showsMatrix(pattern) ? getChipCoverage(pattern) : 1;
+  colors.forEach((color, index) => {
+    const rowTop = tableTop + 8 + index * ROW_HEIGHT;
+    const textY = rowTop + ROW_HEIGHT / 2 + 1;
+    const probability = calculateColorProbability(color, totalDensity, colors.length) * chipCoverage;
+
+    doc.setFillColor(color.hex);
+    doc.rect(columns[0].x, rowTop + 1, 16, ROW_HEIGHT - 2, 'FD');
+    doc.text(color.hex, columns[1].x, textY);
+    doc.text(color.code || '-', columns[2].x, textY);
+    doc.text(color.density.toString(), columns[3].x, textY);
+    doc.text(`×${getChipSize(color)}`, columns[4].x, textY);
+    doc.text(`${(probability * 100).toFixed(1)}%`, columns[5].x, textY);
+  });
+
+  // The matrix is part of the recipe too, as the rest of the sheet
+  const recipeRows = chipCoverage < 1 ? colors.length + 1 : colors.length;
+  if (chipCoverage < 1) {
+    const rowTop = tableTop + 8 + colors.length * ROW_HEIGHT;
+    const textY = rowTop + ROW_HEIGHT / 2 + 1;
+
+    doc.setFillColor(pattern.matrixColor);
+    doc.rect(columns[0].x, rowTop + 1, 16, ROW_HEIGHT - 2, 'FD');
+    doc.text(pattern.matrixColor, columns[1].x, textY);
+    doc.text(pattern.matrixOpacity < 1 ? `Matrix, ${Math.round(pattern.matrixOpacity * 100)}% opaque` : 'Matrix', columns[2].x, textY);
+    doc.text('-', columns[3].x, textY);
+    doc.text('-', columns[4].x, textY);
+    doc.text(`${((1 - chipCoverage) * 100).toFixed(1)}%`, columns[5].x, textY);
+  }
+
+  // Share link, wrapped since encoded palettes make long URLs
+  const linkTop = tableTop + 8 + recipeRows * ROW_HEIGHT + 10;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('Share link', MARGIN, linkTop);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(37, 99, 235);
+  const urlLines: string[] = doc.splitTextToSize(shareUrl, CONTENT_WIDTH);
+  urlLines.forEach((line, index) => {
+    doc.textWithLink(line, MARGIN, linkTop + 5 + index * 3.5, { url: shareUrl });
+  });
+  doc.setTextColor(0);
+
+  return doc.output('blob');
+};
+
+export const exportSpecSheetPDF = async (options: SpecSheetOptions): Promise<void> => {
+  if (options.colors.length === 0) {
+    throw new Error('Add colors before exporting a spec sheet');
+  }
+
+  const blob = await generateSpecSheetPDF(options);
+  downloadBlob(blob, `colorway-${options.seed}-spec.pdf`);
+};
@@ -0,0 +1,230 @@
+// Spectral color math: color matching functions, illuminant SPDs and reflectance curves
+// Spectra are sampled every 10nm from 380nm to 780nm (41 samples)
+
+import type { XYZColor } from './lightingUtils';
+
+export const SPECTRAL_START_NM = 380;
+export const SPECTRAL_END_NM = 780;
+export const SPECTRAL_STEP_NM = 10;
+
+export const SPECTRAL_WAVELENGTHS: number[] = Array.from(
+  { length: (SPECTRAL_END_NM - SPECTRAL_START_NM) / SPECTRAL_STEP_NM + 1 },
+  (_, index) => SPECTRAL_START_NM + index * SPECTRAL_STEP_NM
+);
+
+// Piecewise Gaussian with separate widths either side of the peak
+const lobe = (wavelength: number, peak: number, widthBelow: number, widthAbove: number): number => {
+  const t = (wavelength - peak) / (wavelength < peak ? widthBelow : widthAbove);
+  return Math.exp(-0.5 * t * t);
+};
+
+// CIE 1931 2° color matching functions, multi-lobe fit of Wyman, Sloan & Shirley (2013)
+const colorMatchingFunctions = (wavelength: number): XYZColor => ({
+  X: 1.056 * lobe(wavelength, 599.8, 37.9, 31.0) +
+    0.362 * lobe(wavelength, 442.0, 16.0, 26.7) -
+    0.065 * lobe(wavelength, 501.1, 20.4, 26.2),
+  Y: 0.821 * lobe(wavelength, 568.8, 46.9, 40.5) +
+    0.286 * lobe(wavelength, 530.9, 16.3, 31.1),
+  Z: 1.217 * lobe(wavelength, 437.0, 11.8, 36.0) +
+    0.681 * lobe(wavelength, 459.0, 26.0, 13.8),
+});
+
+const CMF_TABLE: XYZColor[] = SPECTRAL_WAVELENGTHS.map(colorMatchingFunctions);
+
+// CIE daylight basis functions S0, S1, S2 (380-780nm, 10nm)
+const DAYLIGHT_S0 = [
+  63.4, 65.8, 94.8, 104.8, 105.9, 96.8, 113.9, 125.6, 125.5, 121.3, 121.3, 113.5, 113.1, 110.8,
+  106.5, 108.8, 105.3, 104.4, 100.0, 96.0, 95.1, 89.1, 90.5, 90.3, 88.4, 84.0, 85.1, 81.9,
+  82.6, 84.9, 81.3, 71.9, 74.3, 76.4, 63.3, 71.7, 77.0, 65.2, 47.7, 68.6, 65.0,
+];
+const DAYLIGHT_S1 = [
+  38.5, 35.0, 43.4, 46.3, 43.9, 37.1, 36.7, 35.9, 32.6, 27.9, 24.3, 20.1, 16.2, 13.2,
+  8.6, 6.1, 4.2, 1.9, 0.0, -1.6, -3.5, -3.5, -5.8, -7.2, -8.6, -9.5, -10.9, -10.7,
+  -12.0, -14.0, -13.6, -12.0, -13.3, -12.9, -10.6, -11.6, -12.2, -10.2, -7.8, -11.2, -10.4,
+];
+const DAYLIGHT_S2 = [
+  3.0, 1.2, -1.1, -0.5, -0.7, -1.2, -2.6, -2.9, -2.8, -2.6, -2.6, -1.8, -1.5, -1.3,
+  -1.2, -1.0, -0.5, -0.3, 0.0, 0.2, 0.5, 2.1, 3.2, 4.1, 4.7, 5.1, 6.7, 7.3,
+  8.6, 9.8, 10.2, 8.3, 9.6, 8.5, 7.0, 7.6, 8.0, 6.7, 5.2, 7.4, 6.8,
+];
+
+// Scale a spectrum to 100 at 560nm, the usual convention for relative SPDs
+const normalizeAt560 = (spectrum: number[]): number[] => {
+  const reference = spectrum[SPECTRAL_WAVELENGTHS.indexOf(560)];
+  return reference > 0 ? spectrum.map(value => (value / reference) * 100) : spectrum;
+};
+
+// Blackbody radiator at the given temperature (Planck's law)
+export const blackbodySpd = (kelvin: number): number[] => {
+  const c2 = 1.4388e-2; // Second radiation constant, m·K
+  return normalizeAt560(SPECTRAL_WAVELENGTHS.map(wavelength => {
+    const meters = wavelength * 1e-9;
+    return 1 / (Math.pow(meters, 5) * (Math.exp(c2 / (meters * kelvin)) - 1));
+  }));
+};
+
+// CIE daylight illuminant with chromaticity (xD, yD) on the daylight locus
+export const daylightSpd = (x: number, y: number): number[] => {
+  const denominator = 0.0241 + 0.2562 * x - 0.7341 * y;
+  const m1 = (-1.3515 - 1.7703 * x + 5.9114 * y) / denominator;
+  const m2 = (0.0300 - 31.4424 * x + 30.0717 * y) / denominator;
+  return normalizeAt560(DAYLIGHT_S0.map((s0, index) => s0 + m1 * DAYLIGHT_S1[index] + m2 * DAYLIGHT_S2[index]));
+};
+
+// Sum of Gaussian emission bands, for LEDs and phosphors
+export const emissionBandsSpd = (bands: { peak: number; width: number; power: number }[]): number[] => {
+  return SPECTRAL_WAVELENGTHS.map(wavelength =>
+    bands.reduce((sum, { peak, width, power }) => sum + power * lobe(wavelength, peak, width, width), 0)
+  );
+};
+
+// Tristimulus values of light reflected by a surface, scaled so a perfect white has Y = 100.
+// Without a reflectance this is the white point of the illuminant itself.
+export const spectrumToXyz = (spd: number[], reflectance?: number[]): XYZColor => {
+  let X = 0;
+  let Y = 0;
+  let Z = 0;
+  let whiteY = 0;
+
+  for (let i = 0; i < CMF_TABLE.length; i++) {
+    const power = spd[i] ?? 0;
+    const reflected = power * (reflectance ? reflectance[i] ?? 0 : 1);
+    X += reflected * CMF_TABLE[i].X;
+    Y += reflected * CMF_TABLE[i].Y;
+    Z += reflected * CMF_TABLE[i].Z;
+    whiteY += power * CMF_TABLE[i].Y;
+  }
+
+  if (whiteY === 0) {
+    return { X: 0, Y: 0, Z: 0 };
+  }
+
+  const k = 100 / whiteY;
+  return { X: X * k, Y: Y * k, Z: Z * k };
+};
+
+// D65 from the daylight basis, used as the viewing illuminant for sRGB colors
+export const D65_SPD = daylightSpd(0.31271, 0.32902);
+const D65_SPECTRAL_WHITE = spectrumToXyz(D65_SPD);
+
+// Smooth reflectance curves: R(λ) = sigmoid(c0·t² + c1·t + c2) with t in [0, 1] across the
+// visible range (Jakob & Hanika 2019). Always between 0 and 1, and only three numbers to fit.
+const sigmoid = (value: number): number => 0.5 + value / (2 * Math.sqrt(1 + value * value));
+
+const reflectanceFromCoefficients = ([c0, c1, c2]: number[]): number[] => {
+  return SPECTRAL_WAVELENGTHS.map(wavelength => {
+    const t = (wavelength - SPECTRAL_START_NM) / (SPECTRAL_END_NM - SPECTRAL_START_NM);
+    return sigmoid(c0 * t * t + c1 * t + c2);
+  });
+};
+
+// Roughly perceptual residual so dark colors fit as well as light ones
+const toFitSpace = ({ X, Y, Z }: XYZColor): number[] => [
+  Math.cbrt(Math.max(0, X) / D65_SPECTRAL_WHITE.X),
+  Math.cbrt(Math.max(0, Y) / D65_SPECTRAL_WHITE.Y),
+  Math.cbrt(Math.max(0, Z) / D65_SPECTRAL_WHITE.Z),
+];
+
+const fitResidual = (coefficients: number[], target: number[]): number[] => {
+  const fitted = toFitSpace(spectrumToXyz(D65_SPD, reflectanceFromCoefficients(coefficients)));
+  return fitted.map((value, index) => value - target[index]);
+};
+
+// Solve the 3x3 system A·x = b (Cramer's rule); null when singular
+const solve3 = (a: number[][], b: number[]): number[] | null => {
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  const d = det(a);
+  if (Math.abs(d) < 1e-12) {
+    return null;
+  }
+
+  return [0, 1, 2].map(column => det(a.map((row, i) => row.map((value, j) => (j === column ? b[i] : value)))) / d);
+};
+
+const MAX_COEFFICIENT = 1e4;
+
+// Gauss-Newton steps from a starting guess towards the target
+const refineCoefficients = (start: number[], target: number[], iterations: number): number[] => {
+  let coefficients = start;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const residual = fitResidual(coefficients, target);
+    if (Math.hypot(...residual) < 1e-5) {
+      break;
+    }
+
+    // Numerical Jacobian of the residual
+    const jacobian = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    for (let j = 0; j < 3; j++) {
+      const delta = 1e-4 * Math.max(1, Math.abs(coefficients[j]));
+      const shifted = coefficients.map((value, index) => (index === j ? value + delta : value));
+      const shiftedResidual = fitResidual(shifted, target);
+      for (let i = 0; i < 3; i++) {
+        jacobian[i][j] = (shiftedResidual[i] - residual[i]) / delta;
+      }
+    }
+
+    const step = solve3(jacobian, residual.map(value => -value));
+    if (!step) {
+      break;
+    }
+
+    coefficients = coefficients.map((value, index) =>
+      Math.max(-MAX_COEFFICIENT, Math.min(MAX_COEFFICIENT, value + step[index]))
+    );
+  }
+
+  return coefficients;
+};
+
+const reflectanceCache = new Map<string, number[]>();
+const MAX_REFLECTANCE_CACHE_SIZE = 500;
+const CONTINUATION_STEPS = 8;
+
+// Estimate a plausible reflectance curve for a color seen under D65.
+// The fit walks from mid grey towards the target so saturated colors converge.
+export const estimateReflectance = (cacheKey: string, xyz: XYZColor): number[] => {
+  const cached = reflectanceCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  // Express the target relative to the spectral D65 so white fits a flat 100% curve
+  const target = toFitSpace({
+    X: xyz.X * (D65_SPECTRAL_WHITE.X / 95.047),
+    Y: xyz.Y * (D65_SPECTRAL_WHITE.Y / 100),
+    Z: xyz.Z * (D65_SPECTRAL_WHITE.Z / 108.883),
+  });
+  const grey = toFitSpace(spectrumToXyz(D65_SPD, reflectanceFromCoefficients([0, 0, 0])));
+
+  let coefficients = [0, 0, 0];
+  for (let step = 1; step <= CONTINUATION_STEPS; step++) {
+    const fraction = step / CONTINUATION_STEPS;
+    const intermediate = grey.map((value, index) => value + (target[index] - value) * fraction);
+    coefficients = refineCoefficients(coefficients, intermediate, step === CONTINUATION_STEPS ? 30 : 8);
+  }
+
+  const reflectance = reflectanceFromCoefficients(coefficients);
+
+  if (reflectanceCache.size >= MAX_REFLECTANCE_CACHE_SIZE) {
+    const firstKey = reflectanceCache.keys().next().value;
+    if (firstKey !== undefined) {
+      reflectanceCache.delete(firstKey);
+    }
+  }
+  reflectanceCache.set(cacheKey, reflectance);
+
+  return reflectance;
+};
+
+export const isValidReflectance = (reflectance: unknown): reflectance is number[] => {
+  return (
+    Array.isArray(reflectance) &&
+    reflectance.length === SPECTRAL_WAVELENGTHS.length &&
+    reflectance.every(value => typeof value === 'number' && value >= 0 && value <= 1)
+  );
+};
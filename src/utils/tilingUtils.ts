@@ -0,0 +1,58 @@
+// Seamless tiles: a tileable sheet is one period of an endless pattern. Its diagram is
+// built from the points repeated in the eight surrounding tiles, and a chip crossing
+// an edge is drawn again where it comes back in on the opposite side.
+
+import { Bounds } from './flowUtils';
+
+type Point = [number, number];
+type Polygon = Point[];
+
+// Whole-tile shifts, the sheet itself first
+const TILE_OFFSETS: Point[] = [
+  [0, 0],
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1],
+];
+
+// The points followed by their copies in the surrounding tiles, so copy k of point i
+// sits at index k * points.length + i and the originals keep their indices
+export const replicatePoints = (points: Point[], width: number, height: number): Point[] => {
+  return TILE_OFFSETS.flatMap(([dx, dy]) => points.map(([x, y]) => [x + dx * width, y + dy * height] as Point));
+};
+
+// The sheet and its surrounding tiles
+export const getTiledBounds = (width: number, height: number): Bounds => {
+  return [-width, -height, 2 * width, 2 * height];
+};
+
+// Position within [0, size)
+export const wrapCoordinate = (value: number, size: number): number => {
+  return ((value % size) + size) % size;
+};
+
+// Shortest offset between two positions on a tile that wraps around every size units
+export const wrapOffset = (delta: number, size: number): number => {
+  return delta - Math.round(delta / size) * size;
+};
+
+// The ring and its whole-tile shifts that reach into the sheet; the rest of each copy
+// falls outside and is cut off by the canvas or SVG viewport
+export const getWrappedCopies = (ring: Polygon, width: number, height: number): Polygon[] => {
+  const xs = ring.map(([x]) => x);
+  const ys = ring.map(([, y]) => y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  const right = Math.max(...xs);
+  const bottom = Math.max(...ys);
+
+  return TILE_OFFSETS
+    .filter(([dx, dy]) =>
+      right + dx * width > 0 && left + dx * width < width &&
+      bottom + dy * height > 0 && top + dy * height < height
+    )
+    .map(([dx, dy]) => dx === 0 && dy === 0
+      ? ring
+      : ring.map(([x, y]) => [x + dx * width, y + dy * height] as Point)
+    );
+};
@@ -1,24 +1,34 @@
-import { Color } from '../types';
-import { createColor, isValidHexColor, isValidDensity } from './colorUtils';
+import { Color, PatternSettings } from '../types';
+import { DEFAULT_CHIP_SIZE, createColor, getChipSize, isValidChipSize, isValidHexColor, isValidDensity } from './colorUtils';
+import { isValidSeed } from './voronoiUtils';
+import { isValidCatalogCode } from './catalogUtils';
+import { isValidLightId } from './lightingUtils';
+import { isSamePattern, readPatternParams, writePatternParams } from './patternUtils';
 
-interface URLState {
+export interface URLState {
   colors: Color[];
   scale: number;
   lightingId: string;
+  seed?: number;
+  pattern: PatternSettings;
 }
 
 interface SerializableColor {
   hex: string;
   density: number;
+  code?: string;
+  size?: number;   // Chip size, left out for standard chips
 }
 
 
-export const encodeColorsToURL = (colors: Color[], scale: number, lightingId: string): string => {
+export const encodeColorsToURL = ({ colors, scale, lightingId, seed, pattern }: URLState): string => {
   try {
     // Convert colors to a simpler format for URL encoding
-    const serializableColors: SerializableColor[] = colors.map(({ hex, density }) => ({
+    const serializableColors: SerializableColor[] = colors.map(({ hex, density, code, chipSize }) => ({
       hex,
       density,
+      ...(code ? { code } : {}),
+      ...(chipSize !== undefined && chipSize !== DEFAULT_CHIP_SIZE ? { size: chipSize } : {}),
     }));
 
     // Create URL parameters
@@ -37,6 +47,13 @@ export const encodeColorsToURL = (colors: Color[], scale: number, lightingId: st
     if (lightingId !== 'natural') {
       params.set('lighting', lightingId);
     }
+    
+    // The seed only matters once there is a pattern to reproduce
+    if (seed !== undefined && serializableColors.length > 0) {
+      params.set('seed', seed.toString());
+    }
+    
+    writePatternParams(pattern, params);
 
     return params.toString();
   } catch (error) {
@@ -53,10 +70,12 @@ export const decodeColorsFromURL = (url: string): URLState | null => {
     const colorsParam = params.get('colors');
     const scaleParam = params.get('scale');
     const lightingParam = params.get('lighting');
+    const seedParam = params.get('seed');
     
     let colors: Color[] = [];
     let scale = 1.0;
     let lightingId = 'natural';
+    let seed: number | undefined;
     
     // Decode colors if present
     if (colorsParam) {
@@ -69,7 +88,27 @@ export const decodeColorsFromURL = (url: string): URLState | null => {
           .filter(({ hex, density }) => 
             isValidHexColor(hex) && isValidDensity(density)
           )
-          .map(({ hex, density }) => createColor(hex, density));
+          .map(({ hex, density, code, size }) => {
+            const color = createColor(
+              hex,
+              density,
+              // Drop codes that don't look like catalog codes rather than the whole color
+              typeof code === 'string' && isValidCatalogCode(code) ? code : undefined
+            );
+            
+            if (size === undefined) {
+              return color;
+            }
+            if (!isValidChipSize(size)) {
+              console.warn(`Ignored invalid chip size ${JSON.stringify(size)} in URL`);
+              return color;
+            }
+            return { ...color, chipSize: size };
+          });
+        
+        if (colors.length < parsedColors.length) {
+          console.warn(`Ignored ${parsedColors.length - colors.length} invalid color(s) in URL`);
+        }
       } catch (error) {
         console.warn('Invalid colors parameter in URL:', error);
       }
@@ -83,23 +122,24 @@ export const decodeColorsFromURL = (url: string): URLState | null => {
       }
     }
     
-    // Decode lighting if present
+    // Decode lighting if present (built-in ids or self-describing custom light ids)
     if (lightingParam) {
-      // Import lighting sources to validate
-      import('../utils/lightingUtils').then(({ LIGHT_SOURCES }) => {
-        const validLightIds = ['natural', ...LIGHT_SOURCES.map(l => l.id)];
-        if (validLightIds.includes(lightingParam)) {
-          lightingId = lightingParam;
-        }
-      });
-      // For synchronous validation, use a simple check
-      const knownLightIds = ['natural', 'incandescent-a', 'fluorescent-f2', 'led-5000k', 'red-660nm'];
-      if (knownLightIds.includes(lightingParam)) {
+      if (isValidLightId(lightingParam)) {
         lightingId = lightingParam;
+      } else {
+        console.warn(`Ignored unknown lighting "${lightingParam}" in URL`);
       }
     }
     
-    return { colors, scale, lightingId };
+    // Decode seed if present
+    if (seedParam) {
+      const parsedSeed = parseInt(seedParam, 10);
+      if (isValidSeed(parsedSeed)) {
+        seed = parsedSeed;
+      }
+    }
+    
+    return { colors, scale, lightingId, seed, pattern: readPatternParams(params) };
   } catch (error) {
     console.error('Error decoding colors from URL:', error);
     return null;
@@ -116,9 +156,9 @@ export const getStateFromURL = (): URLState | null => {
   }
 };
 
-export const updateURL = (colors: Color[], scale: number, lightingId: string): void => {
+export const updateURL = (state: URLState): void => {
   try {
-    const urlParams = encodeColorsToURL(colors, scale, lightingId);
+    const urlParams = encodeColorsToURL(state);
     const newUrl = urlParams ? `${window.location.pathname}?${urlParams}` : window.location.pathname;
     
     // Only update URL if it's actually different from current URL
@@ -131,8 +171,10 @@ export const updateURL = (colors: Color[], scale: number, lightingId: string): v
   }
 };
 
-export const generateShareableURL = (colors: Color[], scale: number, lightingId: string): string => {
+export const generateShareableURL = (state: URLState): string => {
   try {
+    const { colors, scale, lightingId, seed, pattern } = state;
+    
     // First, check if the current URL already has the right state
     const currentUrlState = getStateFromURL();
     
@@ -140,9 +182,13 @@ export const generateShareableURL = (colors: Color[], scale: number, lightingId:
         currentUrlState.colors.length === colors.length &&
         Math.abs(currentUrlState.scale - scale) < 0.01 &&
         currentUrlState.lightingId === lightingId &&
+        currentUrlState.seed === seed &&
+        isSamePattern(currentUrlState.pattern, pattern) &&
         currentUrlState.colors.every((urlColor, index) => 
           colors[index] && 
           urlColor.hex === colors[index].hex && 
+          urlColor.code === colors[index].code &&
+          getChipSize(urlColor) === getChipSize(colors[index]) &&
           Math.abs(urlColor.density - colors[index].density) < 0.01
         )) {
       // Current URL already represents the current state, return it
@@ -150,7 +196,7 @@ export const generateShareableURL = (colors: Color[], scale: number, lightingId:
     }
     
     // Otherwise, generate a new URL
-    const urlParams = encodeColorsToURL(colors, scale, lightingId);
+    const urlParams = encodeColorsToURL(state);
     const baseUrl = `${window.location.origin}${window.location.pathname}`;
     return urlParams ? `${baseUrl}?${urlParams}` : baseUrl;
   } catch (error) {
@@ -167,7 +213,8 @@ export const isValidURLState = (state: URLState | null): state is URLState => {
     state.scale >= 0.1 &&
     state.scale <= 4.0 &&
     typeof state.lightingId === 'string' &&
-    state.lightingId.length > 0
+    state.lightingId.length > 0 &&
+    (state.seed === undefined || isValidSeed(state.seed))
   );
 };
 
@@ -1,6 +1,13 @@
 import { Delaunay } from 'd3-delaunay';
-import { Color, VoronoiCell } from '../types';
-import { getRandomColor, getSeededRandomColor } from './colorUtils';
+import { Color, ColorAssignmentMode, PatternSettings, VoronoiCell } from '../types';
+import { getChipDrawColors, getChipSize, getQuotaColorSequence, getRandomColor, getSeededColorSequence, hasUniformChipSize } from './colorUtils';
+import { RANDOM_STREAMS, createSeededRandom } from './randomUtils';
+import { generatePatternPoints } from './pointProcessUtils';
+import { CHIP_SHAPE_RENDERERS, computeChipOutlines, showsMatrix } from './chipShapeUtils';
+import { DEFAULT_PATTERN } from './patternUtils';
+import { Bounds, computeFlowVoronoi, getFlowStretch } from './flowUtils';
+import { getTiledBounds, getWrappedCopies, replicatePoints } from './tilingUtils';
+import { computeChipPowerCells, findChipAtPoint, spaceChipsBySize } from './chipSpacingUtils';
 
 // Interface for hover information
 export interface CellHoverInfo {
@@ -9,13 +16,26 @@ export interface CellHoverInfo {
   position: { x: number; y: number };
 }
 
-// Simple Linear Congruential Generator for consistent seeded randomness
-const createSeededRandom = (seed: number): (() => number) => {
-  let current = seed;
-  return () => {
-    current = (current * 1664525 + 1013904223) % 4294967296;
-    return current / 4294967296;
-  };
+// Seeds are whole numbers so they survive a round trip through the URL unchanged
+export const MAX_SEED = 1000000;
+
+export const generateRandomSeed = (): number => {
+  return Math.floor(Math.random() * MAX_SEED);
+};
+
+export const isValidSeed = (seed: number): boolean => {
+  return Number.isInteger(seed) && seed >= 0 && seed < MAX_SEED;
+};
+
+// Map scale 0.1-4.0 to cell count 100-10000
+// Linear interpolation: cellCount = 100 + (scale - 0.1) * (10000 - 100) / (4.0 - 0.1)
+export const scaleToCellCount = (scale: number): number => {
+  const minCells = 100;
+  const maxCells = 10000;
+  const minScale = 0.1;
+  const maxScale = 4.0;
+  
+  return Math.round(minCells + (scale - minScale) * (maxCells - minCells) / (maxScale - minScale));
 };
 
 export const generateRandomPoints = (count: number, width: number, height: number): [number, number][] => {
@@ -34,18 +54,159 @@ export const generateSeededPoints = (
   count: number, 
   width: number, 
   height: number, 
-  seed: number
+  seed: number,
+  pattern: PatternSettings = DEFAULT_PATTERN
 ): [number, number][] => {
-  const random = createSeededRandom(seed);
-  const points: [number, number][] = [];
+  return generatePatternPoints(createSeededRandom(seed, RANDOM_STREAMS.points), count, width, height, pattern);
+};
+
+// Generate points for a sheet of any aspect ratio that agrees with the square preview.
+// The preview square covers the sheet's shorter side and uses exactly the preview's
+// points; the remaining strip is filled at the same cell density and with the same
+// distribution by continuing the same random stream, so cell indices (and therefore
+// colors) of the square are unchanged. The strip is laid out around the square's points,
+// so spacing, relaxation and clusters carry on across the join. A tileable sheet has to wrap around as a whole,
+// so it is laid out in one go and only matches the preview when square.
+export const generateSheetPoints = (
+  cellCount: number,
+  width: number,
+  height: number,
+  seed: number,
+  pattern: PatternSettings = DEFAULT_PATTERN
+): [number, number][] => {
+  const random = createSeededRandom(seed, RANDOM_STREAMS.points);
+  const side = Math.min(width, height);
+  if (pattern.tileable) {
+    return generatePatternPoints(random, Math.round(cellCount * width * height / (side * side)), width, height, pattern);
+  }
+
+  const points = generatePatternPoints(random, cellCount, side, side, pattern);
   
-  for (let i = 0; i < count; i++) {
-    const x = random() * width;
-    const y = random() * height;
-    points.push([x, y]);
+  const extraWidth = width - side;
+  const extraHeight = height - side;
+  const extraCount = Math.round(cellCount * (extraWidth * height + extraHeight * width) / (side * side));
+  
+  // Only one side is longer, so the strip is a single rectangle
+  const strip = extraWidth > 0
+    ? generatePatternPoints(random, extraCount, extraWidth, height, pattern, side, 0, points)
+    : generatePatternPoints(random, extraCount, width, extraHeight, pattern, 0, side, points);
+  
+  return [...points, ...strip];
+};
+
+// Seeded color for each cell. Quotas are exact per block of blockSize cells, so pass
+// the preview's cell count when rendering a larger sheet.
+export const assignCellColors = (
+  colors: Color[],
+  count: number,
+  seed: number,
+  assignment: ColorAssignmentMode = 'random',
+  blockSize: number = count
+): Color[] => {
+  if (colors.length === 0) {
+    return [];
   }
   
-  return points;
+  const drawColors = getChipDrawColors(colors);
+  
+  const sequence = assignment === 'quota'
+    ? getQuotaColorSequence(drawColors, count, seed, blockSize)
+    : getSeededColorSequence(drawColors, count, seed);
+  
+  if (drawColors === colors) {
+    return sequence;
+  }
+  
+  const originals = new Map(drawColors.map((color, index) => [color, colors[index]]));
+  return sequence.map(color => originals.get(color)!);
+};
+
+type Polygon = [number, number][];
+
+// Outline of every cell, closed like d3's cellPolygon and null for empty cells. A palette
+// with one chip size gives the plain Voronoi diagram; mixed sizes space the chips for
+// their sizes and give a power diagram in which every chip keeps a cell; on a sheet
+// longer than the preview, the first cellCount chips keep the preview's cells.
+// Stretched patterns measure distance in flow space, so cells lengthen along the flow.
+// Tileable cells are not cut at the sheet edge: they run over it into the next tile.
+export const computeCellPolygons = (
+  points: [number, number][],
+  cellColors: Color[],
+  width: number,
+  height: number,
+  pattern: PatternSettings = DEFAULT_PATTERN,
+  cellCount: number = points.length
+): (Polygon | null)[] => {
+  if (hasUniformChipSize(cellColors)) {
+    const sites = pattern.tileable ? replicatePoints(points, width, height) : points;
+    const bounds: Bounds = pattern.tileable ? getTiledBounds(width, height) : [0, 0, width, height];
+    return computeFlowVoronoi(sites, bounds, getFlowStretch(pattern), points.length);
+  }
+  
+  const chips = spaceChipsBySize(points, cellColors.map(getChipSize), width, height, pattern, cellCount);
+  return computeChipPowerCells(chips, width, height, pattern);
+};
+
+// Each chip once, or on a tile also where it comes back in across an edge
+const getChipCopies = (ring: Polygon, width: number, height: number, pattern: PatternSettings): Polygon[] => {
+  return pattern.tileable ? getWrappedCopies(ring, width, height) : [ring];
+};
+
+// Realized share of the sheet per color, as fractions from 0 to 1
+export interface ColorCoverage {
+  cells: number;  // Share of chips
+  area: number;   // Share of visible surface; cells differ in size
+}
+
+// Shoelace formula; cellPolygon rings repeat their first vertex, which adds nothing
+const polygonArea = (polygon: [number, number][]): number => {
+  let twiceArea = 0;
+  for (let i = 0; i < polygon.length - 1; i++) {
+    twiceArea += polygon[i][0] * polygon[i + 1][1] - polygon[i + 1][0] * polygon[i][1];
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+// Per-color chip count and total polygon area for the same diagram and colors the
+// renderers draw, keyed by color id
+export const computeColorCoverage = (
+  points: [number, number][],
+  colors: Color[],
+  width: number,
+  height: number,
+  seed: number,
+  pattern: PatternSettings = DEFAULT_PATTERN,
+  cellCount: number = points.length
+): Record<string, ColorCoverage> => {
+  const coverage: Record<string, ColorCoverage> = Object.fromEntries(
+    colors.map(color => [color.id, { cells: 0, area: 0 }])
+  );
+  if (colors.length === 0 || points.length === 0) {
+    return coverage;
+  }
+  
+  const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment, cellCount);
+  const polygons = computeCellPolygons(points, cellColors, width, height, pattern, cellCount);
+  const sheetArea = width * height;
+  
+  // Chips on a matrix cover only their outline; other shapes trade area evenly
+  // with their neighbours, so the cell stands for the chip
+  const areas = showsMatrix(pattern) ? computeChipOutlines(polygons, width, height, seed, pattern) : polygons;
+  
+  // Only chips that are drawn count towards the chip shares
+  const drawnCount = polygons.filter(Boolean).length;
+  for (let i = 0; i < points.length; i++) {
+    if (!polygons[i]) continue;
+    const entry = coverage[cellColors[i].id];
+    entry.cells += 1 / drawnCount;
+    
+    const ring = areas[i];
+    if (ring) {
+      entry.area += polygonArea(ring) / sheetArea;
+    }
+  }
+  
+  return coverage;
 };
 
 export const createVoronoiDiagram = (
@@ -81,7 +242,8 @@ export const renderVoronoiToCanvas = (
   colors: Color[],
   cellCount: number = 100,
   seed: number = 0,
-  isolatedColorId?: string | null
+  isolatedColorId?: string | null,
+  pattern: PatternSettings = DEFAULT_PATTERN
 ): void => {
   const ctx = canvas.getContext('2d');
   if (!ctx) return;
@@ -99,8 +261,10 @@ export const renderVoronoiToCanvas = (
   
   // Use pre-generated points if available, otherwise generate new ones
   const points = preGeneratedPoints || generateRandomPoints(cellCount, width, height);
-  const delaunay = Delaunay.from(points);
-  const voronoi = delaunay.voronoi([0, 0, width, height]);
+  
+  // Seeded color assignment so each cell keeps its color between renders
+  const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment, cellCount);
+  const polygons = computeCellPolygons(points, cellColors, width, height, pattern, cellCount);
   
   // Configure canvas to prevent thin lines/borders
   ctx.lineWidth = 0;
@@ -138,26 +302,18 @@ export const renderVoronoiToCanvas = (
   // Expansion factor is 0.01 at 0 cells and 0.2 at 10000 cells
   let expansionFactor = (cellCount / 10000) * 0.2;
   
-  // Render each cell
-  for (let i = 0; i < points.length; i++) {
-    const cell = voronoi.cellPolygon(i);
-    if (!cell) continue;
-    
-    // Use seeded random to ensure consistent color assignment per cell
-    const cellSeed = seed + i;
-    const randomColor = getSeededRandomColor(colors, cellSeed);
-    
+  const fillChip = (polygon: [number, number][], color: Color, expand: boolean) => {
     // Apply isolation logic: if a color is isolated, show others at low opacity
-    const isIsolatedColor = isolatedColorId && randomColor.id === isolatedColorId;
+    const isIsolatedColor = isolatedColorId && color.id === isolatedColorId;
     const shouldDimColor = isolatedColorId && !isIsolatedColor;
     
     // Set canvas alpha for dimmed colors, keep normal alpha for isolated/normal colors
     ctx.globalAlpha = shouldDimColor ? 0.15 : 1.0;
-    ctx.fillStyle = randomColor.hex;
+    ctx.fillStyle = color.hex;
     ctx.beginPath();
     
     // Expand polygon if needed to eliminate gaps
-    const finalPolygon = expansionFactor > 0 ? expandPolygon(cell, expansionFactor) : cell;
+    const finalPolygon = expand && expansionFactor > 0 ? expandPolygon(polygon, expansionFactor) : polygon;
     
     // Round coordinates to prevent subpixel rendering artifacts
     ctx.moveTo(Math.round(finalPolygon[0][0]), Math.round(finalPolygon[0][1]));
@@ -168,37 +324,168 @@ export const renderVoronoiToCanvas = (
     
     ctx.closePath();
     ctx.fill();
+  };
+  
+  const renderer = CHIP_SHAPE_RENDERERS[pattern.shape];
+  const onMatrix = showsMatrix(pattern);
+  
+  // Translucent resin shows the white backing through it
+  if (onMatrix) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = pattern.matrixOpacity;
+    ctx.fillStyle = pattern.matrixColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 1.0;
+  }
+  
+  // Plain cells, as the chips themselves or as an underlay for shaped chips.
+  // On a matrix the gaps between chips show the resin instead.
+  if (!onMatrix && (pattern.shape === 'cells' || renderer.underlay)) {
+    for (let i = 0; i < points.length; i++) {
+      const cell = polygons[i];
+      if (cell) {
+        getChipCopies(cell, width, height, pattern).forEach(copy => fillChip(copy, cellColors[i], true));
+      }
+    }
+  }
+  
+  if (onMatrix || pattern.shape !== 'cells') {
+    const outlines = computeChipOutlines(polygons, width, height, seed, pattern);
+    for (let i = 0; i < points.length; i++) {
+      const outline = outlines[i];
+      if (outline) {
+        getChipCopies(outline, width, height, pattern).forEach(copy => fillChip(copy, cellColors[i], false));
+      }
+    }
   }
   
   // Reset global alpha to default
   ctx.globalAlpha = 1.0;
 };
 
+// Make an XML-safe, unique element id for a palette color's group
+const getColorGroupId = (color: Color, usedIds: Set<string>): string => {
+  const base = (color.code || `hex-${color.hex.replace('#', '')}`).replace(/[^A-Za-z0-9_-]/g, '-');
+  let id = /^[A-Za-z_]/.test(base) ? base : `c-${base}`;
+  
+  // Two palette entries can share a hex or code; keep their groups separate
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  
+  usedIds.add(id);
+  return id;
+};
+
+// Render the same diagram as renderVoronoiToCanvas as an SVG document.
+// Cells are emitted as exact polygons (no gap-filling expansion) and grouped
+// by palette color, so each chip color can be selected and recolored as a unit.
+export const renderVoronoiToSVG = (
+  points: [number, number][],
+  colors: Color[],
+  width: number,
+  height: number,
+  seed: number = 0,
+  unit: 'px' | 'mm' = 'px',
+  pattern: PatternSettings = DEFAULT_PATTERN,
+  cellCount: number = points.length
+): string => {
+  const header = `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}${unit}" height="${height}${unit}" viewBox="0 0 ${width} ${height}">\n`;
+  
+  if (colors.length === 0 || points.length === 0) {
+    return `${header}  <rect width="${width}" height="${height}" fill="#f3f4f6"/>\n</svg>\n`;
+  }
+  
+  const formatPoint = ([x, y]: [number, number]): string => `${+x.toFixed(2)},${+y.toFixed(2)}`;
+  
+  // Collect polygons per palette color, preserving palette order
+  const polygonsByColor = new Map<string, string[]>(colors.map(color => [color.id, []]));
+  
+  // Same seeded assignment as the canvas renderer
+  const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment, cellCount);
+  const polygons = computeCellPolygons(points, cellColors, width, height, pattern, cellCount);
+  const onMatrix = showsMatrix(pattern);
+  const underlay = CHIP_SHAPE_RENDERERS[pattern.shape].underlay && !onMatrix;
+  const outlines = computeChipOutlines(polygons, width, height, seed, pattern);
+  
+  // Rings repeat the first vertex to close; SVG polygons close implicitly
+  const addPolygon = (ring: [number, number][], color: Color) => {
+    polygonsByColor.get(color.id)?.push(`    <polygon points="${ring.slice(0, -1).map(formatPoint).join(' ')}"/>`);
+  };
+  
+  for (let i = 0; i < points.length; i++) {
+    const cell = polygons[i];
+    const outline = outlines[i];
+    if (!cell || !outline) continue;
+    
+    // Shaped chips keep their plain cell underneath, in the same group
+    if (underlay) {
+      getChipCopies(cell, width, height, pattern).forEach(copy => addPolygon(copy, cellColors[i]));
+    }
+    getChipCopies(outline, width, height, pattern).forEach(copy => addPolygon(copy, cellColors[i]));
+  }
+  
+  const usedIds = new Set<string>(onMatrix ? ['matrix'] : []);
+  const opacity = pattern.matrixOpacity < 1 ? ` fill-opacity="${pattern.matrixOpacity}"` : '';
+  const matrix = onMatrix
+    ? `  <g id="matrix">\n    <rect width="${width}" height="${height}" fill="#FFFFFF"/>\n` +
+      `    <rect width="${width}" height="${height}" fill="${pattern.matrixColor}"${opacity}/>\n  </g>\n`
+    : '';
+  const groups = colors.map(color => {
+    const polygons = polygonsByColor.get(color.id) || [];
+    const id = getColorGroupId(color, usedIds);
+    return `  <g id="${id}" fill="${color.hex}">\n${polygons.join('\n')}${polygons.length > 0 ? '\n' : ''}  </g>`;
+  });
+  
+  return `${header}${matrix}${groups.join('\n')}\n</svg>\n`;
+};
+
 // Find which cell contains the given point
 export const findCellAtPoint = (
   x: number,
   y: number,
   points: [number, number][],
   colors: Color[],
-  seed: number
+  seed: number,
+  width: number,
+  height: number,
+  pattern: PatternSettings = DEFAULT_PATTERN
 ): CellHoverInfo | null => {
   if (points.length === 0 || colors.length === 0) {
     return null;
   }
 
   try {
-    const delaunay = Delaunay.from(points);
-    const cellIndex = delaunay.find(x, y);
+    // Replay the rendering assignment to get the consistent color
+    const cellColors = assignCellColors(colors, points.length, seed, pattern.assignment);
+    let cellIndex = -1;
+    
+    // Same choice of diagram as computeCellPolygons, which goes by the assigned colors
+    const chips = hasUniformChipSize(cellColors)
+      ? null
+      : spaceChipsBySize(points, cellColors.map(getChipSize), width, height, pattern);
+    const centers = chips ? chips.points : points;
+    
+    if (chips) {
+      cellIndex = findChipAtPoint(chips, x, y, width, height, pattern);
+    } else {
+      // Distances are measured in flow space and across tile edges, like computeCellPolygons
+      const stretch = getFlowStretch(pattern);
+      const [fx, fy] = stretch ? stretch.toFlow([x, y]) : [x, y];
+      const sites = pattern.tileable ? replicatePoints(points, width, height) : points;
+      const flowPoints = stretch ? sites.map(stretch.toFlow) : sites;
+      cellIndex = Delaunay.from(flowPoints).find(fx, fy) % points.length;
+    }
     
     if (cellIndex !== -1 && cellIndex < points.length) {
-      // Use the same seeded random logic as rendering to get the consistent color
-      const cellSeed = seed + cellIndex;
-      const color = getSeededRandomColor(colors, cellSeed);
+      const color = cellColors[cellIndex];
       
       return {
         color,
         cellIndex,
-        position: { x: points[cellIndex][0], y: points[cellIndex][1] }
+        position: { x: centers[cellIndex][0], y: centers[cellIndex][1] }
       };
     }
   } catch (error) {